@@ -1,3 +1,4 @@
+import ReconciliationPanel from '@/components/ReconciliationPanel';
 import { useSQLiteContext } from '@/database/db';
 import { Ionicons } from '@expo/vector-icons';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
@@ -5,7 +6,7 @@ import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system/legacy';
 import { useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, Animated, Easing, Modal, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
-import { backupDatabase, backupNow, getLastBackupTimestamp, resolveDatabasePath } from '../../utils/backupV2';
+import { backupDatabase, backupNow, getLastBackupTimestamp, markReconcileAfterRestore, resolveDatabasePath } from '../../utils/backupV2';
 import {
   getAccessToken,
   getCurrentUser,
@@ -272,6 +273,7 @@ export default function BackupsScreen() {
     }
     try { const listingAfter = await FileSystem.readDirectoryAsync(SQLITE_DIR); console.log('[Restore] SQLite listing AFTER:', listingAfter); } catch {}
     try { const afterInfo = await FileSystem.getInfoAsync(CANONICAL_DB_PATH); console.log('[Restore] CANONICAL_DB_PATH AFTER restore info:', JSON.stringify(afterInfo)); } catch {}
+    await markReconcileAfterRestore();
     await reloadApp();
     return true;
   };
@@ -355,6 +357,7 @@ export default function BackupsScreen() {
 
       // Fallback to local restore
       await performLocalRestore(CANONICAL_DB_PATH, DB_PATH);
+      await markReconcileAfterRestore();
       console.log('[Restore] Reloading app immediately...');
       await reloadApp();
     } catch (e: any) {
@@ -567,6 +570,9 @@ export default function BackupsScreen() {
         )}
       </View>
 
+      {/* Balance reconciliation (diagnostics) */}
+      <ReconciliationPanel />
+
       {/* SQLite Directory (Advanced) */}
       <TouchableOpacity
         style={styles.advancedSection}
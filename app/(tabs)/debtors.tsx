@@ -1,35 +1,140 @@
 import AddDebtorModal from '@/components/AddDebtorModal';
+import DebtorListOptionsModal, { countListOptions, DEBTOR_SORT_LABELS } from '@/components/DebtorListOptionsModal';
+import HighlightedText from '@/components/HighlightedText';
+import { getAutoArchiveDays, setAutoArchiveDays } from '@/database/archiveService';
+import { useSQLiteContext } from '@/database/db';
+import { DEFAULT_DEBTOR_LIST_VIEW, getDebtorListView, saveDebtorListView } from '@/database/debtorService';
+import { searchDebtors } from '@/database/searchService';
 import { useDebtors } from '@/database/useDebtors';
-import { Debtor } from '@/types/debtor';
-import { Link, useFocusEffect } from 'expo-router';
-import { useCallback, useMemo, useState } from 'react';
-import { FlatList, RefreshControl, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Debtor, DebtorListFilter, DebtorListOptions, DebtorSort } from '@/types/debtor';
+import { SearchHit } from '@/types/search';
+import { CURRENCY_PREFIX, formatAmount, formatMoney } from '@/utils/money';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Link, useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, RefreshControl, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const LIST_FILTERS: { filter: DebtorListFilter; label: string }[] = [
+  { filter: 'ALL', label: 'All' },
+  { filter: 'DEBTOR', label: 'Owe me' },
+  { filter: 'CREDITOR', label: 'I owe' },
+  { filter: 'ARCHIVED', label: 'Archived' },
+];
+
+const AUTO_ARCHIVE_CHOICES: { days: number; label: string }[] = [
+  { days: 0, label: 'Off' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 180, label: '180 days' },
+];
+
+// Transaction matches shown under each debtor in search results
+const MAX_NOTE_HITS = 2;
 
 export default function DebtorsScreen() {
-  const { debtors, loading, error, reload } = useDebtors();
+  const db = useSQLiteContext();
   const [modalVisible, setModalVisible] = useState(false);
   const [query, setQuery] = useState('');
-  const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
-  const filteredDebtors = useMemo(() => {
-    const q = query.trim().toLowerCase();
-    let list = debtors ?? [];
-    if (q.length > 0) {
-      list = list.filter((d) => d.name.toLowerCase().includes(q));
+  const [sortOrder, setSortOrder] = useState<DebtorSort>(DEFAULT_DEBTOR_LIST_VIEW.sort);
+  const [listFilter, setListFilter] = useState<DebtorListFilter>(DEFAULT_DEBTOR_LIST_VIEW.filter);
+  const [listOptions, setListOptions] = useState<DebtorListOptions>(DEFAULT_DEBTOR_LIST_VIEW.options);
+  const [optionsVisible, setOptionsVisible] = useState(false);
+  // The saved view is only written back once it has been read
+  const [viewLoaded, setViewLoaded] = useState(false);
+  const [autoArchiveDays, setAutoArchiveDaysState] = useState<number | null>(null);
+  // Full-text matches for the query, or null when not searching
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
+  // Bumped on focus so search results pick up edits made elsewhere
+  const [searchVersion, setSearchVersion] = useState(0);
+  const router = useRouter();
+
+  useEffect(() => {
+    getDebtorListView(db)
+      .then((view) => {
+        setListFilter(view.filter);
+        setSortOrder(view.sort);
+        setListOptions(view.options);
+      })
+      .catch((e) => console.warn('[Debtors] loading saved view failed:', e))
+      .finally(() => setViewLoaded(true));
+  }, [db]);
+
+  useEffect(() => {
+    if (!viewLoaded) return;
+    saveDebtorListView(db, { filter: listFilter, sort: sortOrder, options: listOptions }).catch((e) =>
+      console.warn('[Debtors] saving view failed:', e)
+    );
+  }, [db, viewLoaded, listFilter, sortOrder, listOptions]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setSearchHits(null);
+      return;
     }
-    if (sortOrder === 'asc') {
-      return [...list].sort((a, b) => a.balance - b.balance);
+    let cancelled = false;
+    searchDebtors(db, q, MAX_NOTE_HITS)
+      .then((hits) => {
+        if (!cancelled) setSearchHits(hits);
+      })
+      .catch((e) => console.warn('[Debtors] search failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [db, query, searchVersion]);
+
+  // The list is limited to matching debtors while searching. Keyed on the ids
+  // so a repeated search with the same matches does not reload the list.
+  const matchedKey = searchHits ? [...new Set(searchHits.map((hit) => hit.debtorId))].join(',') : null;
+  const matchedIds = useMemo(
+    () => (matchedKey === null ? null : matchedKey.split(',').filter(Boolean).map(Number)),
+    [matchedKey]
+  );
+  const { debtors, total, loading, loadingMore, error, reload, loadMore } = useDebtors({
+    filter: listFilter,
+    sort: sortOrder,
+    options: listOptions,
+    ids: matchedIds,
+  });
+
+  // Matching transaction notes per debtor, at most MAX_NOTE_HITS each
+  const noteHits = useMemo(() => {
+    const byDebtor = new Map<number, SearchHit[]>();
+    for (const hit of searchHits ?? []) {
+      if (hit.transactionId === null) continue;
+      byDebtor.set(hit.debtorId, [...(byDebtor.get(hit.debtorId) ?? []), hit]);
     }
-    return [...list].sort((a, b) => b.balance - a.balance);
-  }, [debtors, query, sortOrder]);
+    return byDebtor;
+  }, [searchHits]);
 
   // Reload debtors whenever screen comes into focus
+  const reloadRef = useRef(reload);
+  useEffect(() => {
+    reloadRef.current = reload;
+  }, [reload]);
   useFocusEffect(
     useCallback(() => {
-      reload();
-      // eslint-disable-next-line react-hooks/exhaustive-deps
+      reloadRef.current();
+      setSearchVersion((version) => version + 1);
     }, [])
   );
 
+  useEffect(() => {
+    if (listFilter !== 'ARCHIVED' || autoArchiveDays !== null) return;
+    getAutoArchiveDays(db)
+      .then(setAutoArchiveDaysState)
+      .catch((e) => console.warn('[Debtors] loading auto-archive setting failed:', e));
+  }, [db, listFilter, autoArchiveDays]);
+
+  const handleAutoArchive = async (days: number) => {
+    try {
+      await setAutoArchiveDays(db, days);
+      setAutoArchiveDaysState(days);
+    } catch (e: any) {
+      Alert.alert('Error', e?.message ?? 'Failed to save auto-archive setting');
+    }
+  };
+
   const renderDebtor = ({ item }: { item: Debtor }) => (
     <Link href={`/debtor/${item.id}` as any} asChild>
       <TouchableOpacity
@@ -44,11 +149,32 @@ export default function DebtorsScreen() {
         <View style={styles.debtorInfo}>
           <Text style={styles.debtorName}>{item.name}</Text>
           <View style={styles.debtorRow}>
-            <Text style={styles.debtorBalanceIcon}>Rs.
+            <Text style={styles.debtorBalanceIcon}>{CURRENCY_PREFIX}
               
             </Text>
-            <Text style={styles.debtorBalance}>{item.balance.toFixed(2)}</Text>
+            <Text style={[styles.debtorBalance, item.kind === 'CREDITOR' && styles.creditorBalance]}>
+              {formatAmount(item.balance)}
+            </Text>
+            {item.kind === 'CREDITOR' && (
+              <View style={styles.creditorBadge}>
+                <Text style={styles.creditorBadgeText}>I owe</Text>
+              </View>
+            )}
+            {item.overdueAmount > 0 && (
+              <View style={styles.overdueBadge}>
+                <Text style={styles.overdueBadgeText}>{formatMoney(item.overdueAmount)} overdue</Text>
+              </View>
+            )}
           </View>
+          {noteHits.get(item.id)?.map((hit) => (
+            <TouchableOpacity
+              key={hit.transactionId}
+              style={styles.noteHit}
+              onPress={() => router.push(`/debtor/${item.id}?transactionId=${hit.transactionId}` as any)}
+            >
+              <HighlightedText text={hit.snippet ?? ''} style={styles.noteHitText} numberOfLines={1} />
+            </TouchableOpacity>
+          ))}
         </View>
         <View style={styles.arrowContainer}>
           <Text style={styles.arrowText}>››</Text>
@@ -58,7 +184,10 @@ export default function DebtorsScreen() {
     </Link>
   );
 
-  if (loading) {
+  const optionCount = countListOptions(listOptions);
+  const isUnfiltered = listFilter === 'ALL' && optionCount === 0 && !query.trim();
+
+  if (loading && debtors.length === 0 && isUnfiltered) {
     return (
       <View style={styles.centerContainer}>
         <Text style={styles.loadingText}>Loading debtors...</Text>
@@ -76,13 +205,20 @@ export default function DebtorsScreen() {
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Debtors</Text>
-        <Text style={styles.subtitle}>Total: {filteredDebtors.length}</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Debtors</Text>
+          <Link href="/trash" asChild>
+            <TouchableOpacity style={styles.trashButton} accessibilityRole="button" accessibilityLabel="Trash">
+              <Ionicons name="trash-outline" size={20} color="#fff" />
+            </TouchableOpacity>
+          </Link>
+        </View>
+        <Text style={styles.subtitle}>Total: {total}</Text>
         <View style={styles.searchContainer}>
           <View style={styles.searchRow}>
             <View style={styles.searchInputWrap}>
               <TextInput
-                placeholder="Search debtors..."
+                placeholder="Search names, phones, notes..."
                 placeholderTextColor="#9ba1a6"
                 value={query}
                 onChangeText={setQuery}
@@ -101,34 +237,69 @@ export default function DebtorsScreen() {
             </View>
           </View>
 
-          <View style={styles.segmentedContainer}>
-            <TouchableOpacity
-              style={[styles.segment, sortOrder === 'desc' && styles.segmentActive]}
-              onPress={() => setSortOrder('desc')}
-            >
-              <Text style={[styles.segmentText, sortOrder === 'desc' && styles.segmentTextActive]}>High ↓</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.segment, sortOrder === 'asc' && styles.segmentActive]}
-              onPress={() => setSortOrder('asc')}
-            >
-              <Text style={[styles.segmentText, sortOrder === 'asc' && styles.segmentTextActive]}>Low ↑</Text>
-            </TouchableOpacity>
+          <View style={styles.segmentedRow}>
+            <View style={styles.segmentedContainer}>
+              {LIST_FILTERS.map(({ filter, label }) => (
+                <TouchableOpacity
+                  key={filter}
+                  style={[styles.segment, listFilter === filter && styles.segmentActive]}
+                  onPress={() => setListFilter(filter)}
+                >
+                  <Text style={[styles.segmentText, listFilter === filter && styles.segmentTextActive]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </View>
+          <TouchableOpacity
+            style={styles.optionsButton}
+            onPress={() => setOptionsVisible(true)}
+            accessibilityRole="button"
+            accessibilityLabel="Sort and filter"
+          >
+            <Ionicons name="options-outline" size={16} color="#fff" />
+            <Text style={styles.optionsButtonText}>
+              {DEBTOR_SORT_LABELS[sortOrder]}
+              {optionCount > 0 ? ` • ${optionCount} filter${optionCount === 1 ? '' : 's'}` : ''}
+            </Text>
+          </TouchableOpacity>
+
+          {listFilter === 'ARCHIVED' && (
+            <View style={styles.autoArchive}>
+              <Text style={styles.autoArchiveLabel}>Archive settled debtors after</Text>
+              <View style={styles.segmentedContainer}>
+                {AUTO_ARCHIVE_CHOICES.map((choice) => (
+                  <TouchableOpacity
+                    key={choice.days}
+                    style={[styles.segment, autoArchiveDays === choice.days && styles.segmentActive]}
+                    onPress={() => handleAutoArchive(choice.days)}
+                  >
+                    <Text style={[styles.segmentText, autoArchiveDays === choice.days && styles.segmentTextActive]}>
+                      {choice.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
         </View>
       </View>
 
-      {filteredDebtors.length === 0 ? (
+      {debtors.length === 0 ? (
         <View style={styles.centerContainer}>
-          <Text style={styles.emptyText}>{debtors.length === 0 ? 'No debtors found' : 'No debtors match'}</Text>
-          {debtors.length === 0 && <Text style={styles.emptySubtext}>Add your first debtor to get started</Text>}
+          <Text style={styles.emptyText}>{isUnfiltered ? 'No debtors found' : 'No debtors match'}</Text>
+          {isUnfiltered && <Text style={styles.emptySubtext}>Add your first debtor to get started</Text>}
         </View>
       ) : (
         <FlatList
-          data={filteredDebtors}
+          data={debtors}
           renderItem={renderDebtor}
           keyExtractor={(item) => item.id.toString()}
           contentContainerStyle={styles.listContainer}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.listFooter} color="#3b82f6" /> : null}
           refreshControl={
             <RefreshControl
               refreshing={loading}
@@ -148,6 +319,17 @@ export default function DebtorsScreen() {
         </View>
       </TouchableOpacity>
 
+      <DebtorListOptionsModal
+        visible={optionsVisible}
+        sort={sortOrder}
+        options={listOptions}
+        onApply={(sort, options) => {
+          setSortOrder(sort);
+          setListOptions(options);
+        }}
+        onClose={() => setOptionsVisible(false)}
+      />
+
       <AddDebtorModal
         visible={modalVisible}
         onClose={() => setModalVisible(false)}
@@ -173,12 +355,22 @@ const styles = StyleSheet.create({
     paddingTop: 60,
     backgroundColor: '#1a1d21',
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   title: {
     fontSize: 32,
     fontWeight: 'bold',
     color: '#fff',
     marginBottom: 8,
   },
+  trashButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#25292e',
+  },
   subtitle: {
     fontSize: 16,
     color: '#9ba1a6',
@@ -244,15 +436,50 @@ const styles = StyleSheet.create({
     color: '#f59e42',
     fontWeight: '600',
   },
-  debtorPhoneIcon: {
-    fontSize: 15,
-    color: '#3b82f6',
-    marginRight: 2,
+  creditorBalance: {
+    color: '#60a5fa',
   },
-  debtorPhones: {
-    fontSize: 14,
-    color: '#9ba1a6',
-    fontWeight: '500',
+  creditorBadge: {
+    backgroundColor: 'rgba(96, 165, 250, 0.15)',
+    borderColor: '#60a5fa',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    marginLeft: 6,
+  },
+  creditorBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#60a5fa',
+  },
+  overdueBadge: {
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    borderColor: '#ef4444',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    marginLeft: 6,
+  },
+  overdueBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  listFooter: {
+    paddingVertical: 16,
+  },
+  noteHit: {
+    marginTop: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    backgroundColor: '#25292e',
+  },
+  noteHitText: {
+    fontSize: 13,
+    color: '#d1d5db',
   },
   arrowContainer: {
     justifyContent: 'center',
@@ -315,28 +542,6 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     fontSize: 16,
   },
-  sortContainer: {
-    marginTop: 8,
-    flexDirection: 'row',
-    gap: 8,
-  },
-  sortButton: {
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 10,
-    backgroundColor: '#101216',
-  },
-  sortButtonActive: {
-    backgroundColor: '#0b61f6',
-  },
-  sortButtonText: {
-    color: '#9ba1a6',
-    fontSize: 13,
-    fontWeight: '600',
-  },
-  sortButtonTextActive: {
-    color: '#fff',
-  },
   searchRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -363,6 +568,33 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 16,
   },
+  segmentedRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    backgroundColor: '#0f1113',
+    borderRadius: 12,
+    alignSelf: 'flex-start',
+  },
+  optionsButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  autoArchive: {
+    marginTop: 12,
+  },
+  autoArchiveLabel: {
+    color: '#9ba1a6',
+    fontSize: 13,
+  },
   segmentedContainer: {
     flexDirection: 'row',
     marginTop: 10,
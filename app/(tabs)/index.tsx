@@ -1,7 +1,9 @@
+import AnalyticsSection from '@/components/AnalyticsSection';
 import { logDbStatus, useSQLiteContext } from '@/database/db';
 import { getStatistics } from '@/database/debtorService';
+import { formatMoney } from '@/utils/money';
 import { Ionicons } from '@expo/vector-icons';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import { useCallback, useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { backupNow, getLastBackupTimestamp } from '../../utils/backupV2';
@@ -9,10 +11,15 @@ import { backupNow, getLastBackupTimestamp } from '../../utils/backupV2';
 
 export default function Index() {
   const db = useSQLiteContext();
+  const router = useRouter();
   // manual refresh removed; no-op
   
   const [loading, setLoading] = useState(true);
+  // Later reloads keep the screen, and the chosen analytics period, in place
+  const [statsLoaded, setStatsLoaded] = useState(false);
   const [lastBackup, setLastBackup] = useState<Date | null>(null);
+  // Bumped on focus so the analytics pick up changes made elsewhere
+  const [analyticsVersion, setAnalyticsVersion] = useState(0);
   const [now, setNow] = useState<Date>(new Date());  // Update relative time every minute while this screen is mounted
   useEffect(() => {
     const id = setInterval(() => setNow(new Date()), 60 * 1000);
@@ -40,8 +47,13 @@ export default function Index() {
   };
   const [stats, setStats] = useState({
     totalBalance: 0,
+    totalReceivable: 0,
+    totalPayable: 0,
     totalIn: 0,
     totalOut: 0,
+    totalWaived: 0,
+    totalWrittenOff: 0,
+    overdueTotal: 0,
   });
 
   const loadStatistics = async (retryCount = 0) => {
@@ -70,9 +82,10 @@ export default function Index() {
       }
       
       // Set zero stats on final failure
-      setStats({ totalBalance: 0, totalIn: 0, totalOut: 0 });
+      setStats({ totalBalance: 0, totalReceivable: 0, totalPayable: 0, totalIn: 0, totalOut: 0, totalWaived: 0, totalWrittenOff: 0, overdueTotal: 0 });
     } finally {
       setLoading(false);
+      setStatsLoaded(true);
     }
   };
 
@@ -80,6 +93,7 @@ export default function Index() {
   useFocusEffect(
     useCallback(() => {
       loadStatistics();
+      setAnalyticsVersion((version) => version + 1);
       // Load last backup timestamp when screen gains focus
       (async () => {
         const ts = await getLastBackupTimestamp();
@@ -117,7 +131,7 @@ export default function Index() {
     }
   };
 
-  if (loading) {
+  if (loading && !statsLoaded) {
     return (
       <View style={styles.container}>
         <ActivityIndicator size="large" color="#007AFF" />
@@ -149,6 +163,22 @@ export default function Index() {
             >
               <Ionicons name="cloud-upload-outline" size={20} color="#fff" />
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.backupButton}
+              onPress={() => router.push('/charge-rules')}
+              accessibilityRole="button"
+              accessibilityLabel="Interest and late-fee rules"
+            >
+              <Ionicons name="trending-up-outline" size={20} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.backupButton}
+              onPress={() => router.push('/recent-actions')}
+              accessibilityRole="button"
+              accessibilityLabel="Recent actions"
+            >
+              <Ionicons name="arrow-undo-outline" size={20} color="#fff" />
+            </TouchableOpacity>
             
             {/* manual refresh button removed to avoid user-triggered remounts */}
           </View>
@@ -158,15 +188,44 @@ export default function Index() {
         <View style={styles.statsContainer}>
           {/* Total Balance Card - Highlighted */}
           <View style={[styles.statCard, styles.balanceCard]}>
-            <Text style={styles.statLabel}>Total Balance</Text>
+            <Text style={styles.statLabel}>Net Balance</Text>
             <Text style={[styles.statValue, styles.balanceValue]}>
-              Rs.{stats.totalBalance.toFixed(2)}
+              {formatMoney(stats.totalBalance)}
             </Text>
             <Text style={styles.statNote}>
               {getBalanceNote(stats.totalBalance)}
             </Text>
           </View>
 
+          {/* Receivable and Payable Cards in Row */}
+          <View style={styles.rowContainer}>
+            <View style={[styles.statCard, styles.smallCard, styles.inCard]}>
+              <Text style={styles.statLabel}>Owed to You</Text>
+              <Text style={[styles.statValue, styles.smallValue, styles.inValue]}>
+                {formatMoney(stats.totalReceivable)}
+              </Text>
+              <Text style={styles.statDescription}>Debtors</Text>
+            </View>
+            <View style={[styles.statCard, styles.smallCard, styles.outCard]}>
+              <Text style={styles.statLabel}>You Owe</Text>
+              <Text style={[styles.statValue, styles.smallValue, styles.outValue]}>
+                {formatMoney(stats.totalPayable)}
+              </Text>
+              <Text style={styles.statDescription}>Creditors</Text>
+            </View>
+          </View>
+
+          {/* Overdue Card */}
+          <View style={[styles.statCard, styles.overdueCard]}>
+            <Text style={styles.statLabel}>Overdue</Text>
+            <Text style={[styles.statValue, styles.smallValue, styles.overdueValue]}>
+              {formatMoney(stats.overdueTotal)}
+            </Text>
+            <Text style={styles.statNote}>
+              {stats.overdueTotal > 0 ? 'Past due date and still unpaid' : 'Nothing past its due date'}
+            </Text>
+          </View>
+
           {/* IN and OUT Cards in Row */}
           <View style={styles.rowContainer}>
             {/* Total IN Card */}
@@ -176,9 +235,9 @@ export default function Index() {
               </View>
               <Text style={styles.statLabel}>Received</Text>
               <Text style={[styles.statValue, styles.smallValue, styles.inValue]}>
-                Rs.{stats.totalIn.toFixed(2)}
+                {formatMoney(stats.totalIn)}
               </Text>
-              <Text style={styles.statDescription}>Payments</Text>
+              <Text style={styles.statDescription}>From debtors</Text>
             </View>
 
             {/* Total OUT Card */}
@@ -188,9 +247,9 @@ export default function Index() {
               </View>
               <Text style={styles.statLabel}>Lent</Text>
               <Text style={[styles.statValue, styles.smallValue, styles.outValue]}>
-                Rs.{stats.totalOut.toFixed(2)}
+                {formatMoney(stats.totalOut)}
               </Text>
-              <Text style={styles.statDescription}>Money out</Text>
+              <Text style={styles.statDescription}>To debtors</Text>
             </View>
           </View>
         </View>
@@ -201,16 +260,28 @@ export default function Index() {
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Net Position:</Text>
             <Text style={[styles.summaryValue, stats.totalBalance >= 0 ? styles.positiveText : styles.negativeText]}>
-              Rs.{Math.abs(stats.totalBalance).toFixed(2)} {stats.totalBalance >= 0 ? 'owed to you' : 'you owe'}
+              {formatMoney(Math.abs(stats.totalBalance))} {stats.totalBalance >= 0 ? 'owed to you' : 'you owe'}
+            </Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Waived:</Text>
+            <Text style={styles.summaryValue}>{formatMoney(stats.totalWaived)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Written Off:</Text>
+            <Text style={[styles.summaryValue, stats.totalWrittenOff > 0 && styles.negativeText]}>
+              {formatMoney(stats.totalWrittenOff)}
             </Text>
           </View>
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Total Transactions:</Text>
             <Text style={styles.summaryValue}>
-              Rs.{(stats.totalIn + stats.totalOut).toFixed(2)}
+              {formatMoney(stats.totalIn + stats.totalOut)}
             </Text>
           </View>
         </View>
+
+        <AnalyticsSection refreshKey={analyticsVersion} />
       </ScrollView>
     </View>
   );
@@ -354,6 +425,14 @@ const styles = StyleSheet.create({
   outValue: {
     color: '#f56565',
   },
+  overdueCard: {
+    backgroundColor: '#3d2e1a',
+    borderWidth: 2,
+    borderColor: '#5f4a2d',
+  },
+  overdueValue: {
+    color: '#fbbf24',
+  },
   statNote: {
     fontSize: 11,
     color: '#aaa',
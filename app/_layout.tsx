@@ -1,8 +1,16 @@
+import { autoArchiveSettled } from "@/database/archiveService";
+import { autoPostCharges } from "@/database/chargeService";
 import { getSQLiteProvider, logDbStatus, migrateDbIfNeeded, notifyProviderRemounted, registerSQLiteProviderRemount } from "@/database/db";
+import { normalizeStoredPhoneNumbers } from "@/database/debtorService";
+import { findBalanceDrifts, repairAllBalanceDrifts } from "@/database/reconciliationService";
+import { ensureSearchIndex } from "@/database/searchService";
+import { purgeExpiredTrash } from "@/database/trashService";
 import * as FileSystem from 'expo-file-system/legacy';
 import { Stack } from "expo-router";
+import type { SQLiteDatabase } from 'expo-sqlite';
 import { createContext, Suspense, useCallback, useContext, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import { ActivityIndicator, Alert, StyleSheet, Text, View } from "react-native";
+import { consumeReconcileAfterRestore } from "../utils/backupV2";
 const SQLiteProvider: any = getSQLiteProvider();
 
 // Context for triggering DB provider remount
@@ -19,6 +27,31 @@ function LoadingFallback() {
   );
 }
 
+// After a restore, check the restored data for balance drift and offer a repair
+async function reconcileAfterRestore(db: SQLiteDatabase) {
+  try {
+    if (!(await consumeReconcileAfterRestore())) return;
+    const drifts = await findBalanceDrifts(db);
+    console.log('[DB] post-restore balance check: drifted debtors =', drifts.length);
+    if (drifts.length === 0) return;
+    Alert.alert(
+      'Balance mismatch',
+      `${drifts.length} debtor balance${drifts.length === 1 ? ' does' : 's do'} not match the transaction history in the restored backup.`,
+      [
+        { text: 'Later', style: 'cancel' },
+        {
+          text: 'Repair',
+          onPress: () => {
+            repairAllBalanceDrifts(db).catch((e) => console.warn('[DB] post-restore repair failed:', e));
+          },
+        },
+      ]
+    );
+  } catch (e) {
+    console.warn('[DB] post-restore balance check failed:', e);
+  }
+}
+
 function ProviderWithLogs({ children }: Readonly<{ children: React.ReactNode }>) {
   useEffect(() => {
     console.log('[DB] SQLiteProvider mounted (DB opening)');
@@ -42,6 +75,22 @@ function ProviderWithLogs({ children }: Readonly<{ children: React.ReactNode }>)
         await logDbStatus(db, 'before-migrate');
         await migrateDbIfNeeded(db);
         await logDbStatus(db, 'after-migrate');
+        await reconcileAfterRestore(db);
+        await autoPostCharges(db)
+          .then((posted) => console.log('[DB] auto-posted charges =', posted))
+          .catch((e) => console.warn('[DB] auto-posting charges failed:', e));
+        await purgeExpiredTrash(db)
+          .then((purged) => console.log('[DB] purged trashed debtors =', purged))
+          .catch((e) => console.warn('[DB] purging trash failed:', e));
+        await autoArchiveSettled(db)
+          .then((archived) => console.log('[DB] auto-archived settled debtors =', archived))
+          .catch((e) => console.warn('[DB] auto-archiving failed:', e));
+        await normalizeStoredPhoneNumbers(db)
+          .then((normalized) => console.log('[DB] normalized phone numbers =', normalized))
+          .catch((e) => console.warn('[DB] normalizing phone numbers failed:', e));
+        await ensureSearchIndex(db)
+          .then((indexed) => console.log('[DB] search index built for debtors =', indexed))
+          .catch((e) => console.warn('[DB] building search index failed:', e));
         console.log('[DB] onInit complete');
         try {
           notifyProviderRemounted(true);
@@ -146,6 +195,60 @@ export default function RootLayout() {
           <Stack>
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="debtor/[id]" options={{ headerShown: false }} />
+            <Stack.Screen
+              name="charge-rules"
+              options={{
+                title: 'Charge Rules',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen
+              name="custom-fields"
+              options={{
+                title: 'Custom Fields',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen
+              name="history"
+              options={{
+                title: 'History',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen
+              name="merge"
+              options={{
+                title: 'Merge Duplicate',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen
+              name="recent-actions"
+              options={{
+                title: 'Recent Actions',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
+            <Stack.Screen
+              name="trash"
+              options={{
+                title: 'Trash',
+                headerStyle: { backgroundColor: '#25292e' },
+                headerShadowVisible: false,
+                headerTintColor: '#fff',
+              }}
+            />
           </Stack>
         </ProviderWithLogs>
       </DBRefreshContext.Provider>
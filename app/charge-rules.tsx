@@ -0,0 +1,399 @@
+import {
+  deleteChargeRule,
+  formatPercent,
+  getChargeRule,
+  parsePercent,
+  postCharges,
+  previewCharges,
+  saveChargeRule,
+} from '@/database/chargeService';
+import { useSQLiteContext } from '@/database/db';
+import { ChargeKind, ChargeRule, InterestType, LateFeeType, ProposedCharge } from '@/types/chargeRule';
+import { formatAmount, formatMoney, parseMoney } from '@/utils/money';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const INTEREST_LABELS: Record<InterestType, string> = {
+  NONE: 'None',
+  SIMPLE: 'Simple',
+  COMPOUND: 'Compound',
+};
+
+const LATE_FEE_LABELS: Record<LateFeeType, string> = {
+  NONE: 'None',
+  FLAT: 'Flat',
+  PERCENT: '% of unpaid',
+};
+
+const KIND_ICONS: Record<ChargeKind, string> = {
+  INTEREST: '📈',
+  LATE_FEE: '⏰',
+};
+
+const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Interest and late-fee rule for one debtor (`debtorId` param) or the global
+// default, with a preview of the charges it generates before they are posted
+export default function ChargeRulesScreen() {
+  const { debtorId: debtorIdParam } = useLocalSearchParams<{ debtorId?: string }>();
+  const debtorId = debtorIdParam ? Number(debtorIdParam) : null;
+  const db = useSQLiteContext();
+
+  const [ownRule, setOwnRule] = useState<ChargeRule | null>(null);
+  const [interestType, setInterestType] = useState<InterestType>('NONE');
+  const [rate, setRate] = useState('');
+  const [lateFeeType, setLateFeeType] = useState<LateFeeType>('NONE');
+  const [lateFee, setLateFee] = useState('');
+  const [graceDays, setGraceDays] = useState('0');
+  const [autoPost, setAutoPost] = useState(false);
+  const [startDate, setStartDate] = useState(todayString());
+  const [preview, setPreview] = useState<ProposedCharge[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fillForm = (rule: ChargeRule | null) => {
+    setInterestType(rule?.interest_type ?? 'NONE');
+    setRate(rule ? formatPercent(rule.monthly_rate_bp) : '');
+    setLateFeeType(rule?.late_fee_type ?? 'NONE');
+    if (!rule || rule.late_fee_type === 'NONE') setLateFee('');
+    else setLateFee(rule.late_fee_type === 'FLAT' ? formatAmount(rule.late_fee_value) : formatPercent(rule.late_fee_value));
+    setGraceDays(String(rule?.grace_days ?? 0));
+    setAutoPost(rule?.auto_post === 1);
+    setStartDate(rule?.start_date ?? todayString());
+  };
+
+  const loadRule = useCallback(async () => {
+    const own = await getChargeRule(db, debtorId);
+    setOwnRule(own);
+    // A debtor without a rule of their own starts from the global default
+    fillForm(own ?? (debtorId === null ? null : await getChargeRule(db, null)));
+  }, [db, debtorId]);
+
+  useEffect(() => {
+    loadRule().catch((e) => console.warn('[ChargeRules] load failed:', e));
+  }, [loadRule]);
+
+  const handleSave = async () => {
+    const monthlyRateBp = interestType === 'NONE' ? 0 : parsePercent(rate || '0');
+    let lateFeeValue: number | null = 0;
+    if (lateFeeType === 'FLAT') lateFeeValue = parseMoney(lateFee || '0');
+    if (lateFeeType === 'PERCENT') lateFeeValue = parsePercent(lateFee || '0');
+    const grace = Number(graceDays || '0');
+    if (monthlyRateBp === null || lateFeeValue === null || !Number.isInteger(grace) || grace < 0) {
+      Alert.alert('Invalid Rule', 'Check the rate, late fee and grace days');
+      return;
+    }
+
+    try {
+      await saveChargeRule(db, debtorId, {
+        interestType,
+        monthlyRateBp,
+        lateFeeType,
+        lateFeeValue,
+        graceDays: grace,
+        autoPost,
+        startDate: startDate.trim(),
+      });
+      setPreview(null);
+      await loadRule();
+      Alert.alert('Saved', 'Charge rule saved');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to save rule');
+    }
+  };
+
+  const handleRemoveOverride = () => {
+    if (debtorId === null) return;
+    Alert.alert('Use Global Rule', "Remove this debtor's own rule and use the global default?", [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteChargeRule(db, debtorId);
+            setPreview(null);
+            await loadRule();
+          } catch (error: any) {
+            Alert.alert('Error', error?.message ?? 'Failed to remove rule');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handlePreview = async () => {
+    setBusy(true);
+    try {
+      setPreview(await previewCharges(db, debtorId ?? undefined));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!preview || preview.length === 0) return;
+    setBusy(true);
+    try {
+      const posted = await postCharges(db, preview);
+      setPreview(null);
+      Alert.alert('Charges Posted', `${posted} charge${posted === 1 ? '' : 's'} added to the ledger`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to post charges');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderChoices = <T extends string>(labels: Record<T, string>, value: T, onChange: (v: T) => void) => (
+    <View style={styles.choiceRow}>
+      {(Object.keys(labels) as T[]).map((key) => (
+        <TouchableOpacity
+          key={key}
+          style={[styles.choiceButton, value === key && styles.choiceButtonActive]}
+          onPress={() => onChange(key)}
+        >
+          <Text style={styles.choiceText}>{labels[key]}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  let ruleSource = 'Global default for every debtor without a rule of their own';
+  if (debtorId !== null) {
+    ruleSource = ownRule ? "This debtor's own rule" : 'Using the global default; saving creates a rule for this debtor';
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: debtorId === null ? 'Global Charge Rule' : 'Debtor Charge Rule' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sourceText}>{ruleSource}</Text>
+
+        <Text style={styles.label}>Interest</Text>
+        {renderChoices(INTEREST_LABELS, interestType, setInterestType)}
+        {interestType !== 'NONE' && (
+          <TextInput
+            style={styles.input}
+            placeholder="Monthly rate % (e.g. 2.5)"
+            placeholderTextColor="#9ba1a6"
+            value={rate}
+            onChangeText={setRate}
+            keyboardType="decimal-pad"
+          />
+        )}
+
+        <Text style={styles.label}>Late Fee</Text>
+        {renderChoices(LATE_FEE_LABELS, lateFeeType, setLateFeeType)}
+        {lateFeeType !== 'NONE' && (
+          <TextInput
+            style={styles.input}
+            placeholder={lateFeeType === 'FLAT' ? 'Fee amount' : 'Fee % of the unpaid amount'}
+            placeholderTextColor="#9ba1a6"
+            value={lateFee}
+            onChangeText={setLateFee}
+            keyboardType="decimal-pad"
+          />
+        )}
+
+        <Text style={styles.label}>Grace Days After Due Date</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="0"
+          placeholderTextColor="#9ba1a6"
+          value={graceDays}
+          onChangeText={(text) => setGraceDays(text.replaceAll(/\D/g, ''))}
+          keyboardType="number-pad"
+        />
+
+        <Text style={styles.label}>Charge Interest From (YYYY-MM-DD)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor="#9ba1a6"
+          value={startDate}
+          onChangeText={setStartDate}
+        />
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Post due charges automatically when the app starts</Text>
+          <Switch value={autoPost} onValueChange={setAutoPost} />
+        </View>
+
+        <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSave}>
+          <Text style={styles.buttonText}>Save Rule</Text>
+        </TouchableOpacity>
+        {debtorId !== null && ownRule && (
+          <TouchableOpacity style={styles.button} onPress={handleRemoveOverride}>
+            <Text style={styles.removeText}>Use Global Rule Instead</Text>
+          </TouchableOpacity>
+        )}
+
+        <View style={styles.previewSection}>
+          <Text style={styles.sectionTitle}>Due Charges</Text>
+          <TouchableOpacity style={styles.button} onPress={handlePreview} disabled={busy}>
+            <Text style={styles.buttonText}>{busy ? 'Working...' : 'Preview Charges'}</Text>
+          </TouchableOpacity>
+          {preview?.length === 0 && <Text style={styles.emptyText}>No charges are due.</Text>}
+          {preview?.map((charge) => (
+            <View key={`${charge.debtorId}|${charge.kind}|${charge.period}`} style={styles.chargeCard}>
+              <Text style={styles.chargeIcon}>{KIND_ICONS[charge.kind]}</Text>
+              <View style={styles.chargeInfo}>
+                {debtorId === null && <Text style={styles.chargeDebtor}>{charge.debtorName}</Text>}
+                <Text style={styles.chargeNote}>{charge.note}</Text>
+                <Text style={styles.chargeDate}>{charge.date}</Text>
+              </View>
+              <Text style={styles.chargeAmount}>{formatMoney(charge.amount)}</Text>
+            </View>
+          ))}
+          {preview && preview.length > 0 && (
+            <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handlePost} disabled={busy}>
+              <Text style={styles.buttonText}>
+                Post {preview.length} Charge{preview.length === 1 ? '' : 's'} ({formatMoney(preview.reduce((sum, c) => sum + c.amount, 0))})
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sourceText: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  label: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    alignItems: 'center',
+  },
+  choiceButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  choiceText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  input: {
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 12,
+    color: '#fff',
+    fontSize: 16,
+    marginTop: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    gap: 12,
+  },
+  switchLabel: {
+    flex: 1,
+    color: '#d1d5db',
+    fontSize: 14,
+  },
+  button: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: '#1a1d21',
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#3b82f6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  previewSection: {
+    marginTop: 28,
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+    paddingTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  chargeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#23262a',
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 10,
+    gap: 10,
+  },
+  chargeIcon: {
+    fontSize: 20,
+  },
+  chargeInfo: {
+    flex: 1,
+  },
+  chargeDebtor: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  chargeNote: {
+    color: '#d1d5db',
+    fontSize: 13,
+  },
+  chargeDate: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  chargeAmount: {
+    color: '#fbbf24',
+    fontWeight: '600',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,213 @@
+import { addCustomField, deleteCustomField, getCustomFields } from '@/database/customFieldService';
+import { useSQLiteContext } from '@/database/db';
+import { CustomField, CustomFieldType } from '@/types/customField';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  TEXT: 'Text',
+  NUMBER: 'Number',
+  DATE: 'Date',
+  SELECT: 'Choice',
+};
+
+// Extra debtor fields the user defines once and fills in on every profile
+export default function CustomFieldsScreen() {
+  const db = useSQLiteContext();
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CustomFieldType>('TEXT');
+  const [options, setOptions] = useState('');
+
+  const load = useCallback(async () => {
+    setFields(await getCustomFields(db));
+  }, [db]);
+
+  useEffect(() => {
+    load().catch((e) => console.warn('[CustomFields] load failed:', e));
+  }, [load]);
+
+  const handleAdd = async () => {
+    try {
+      await addCustomField(db, name, type, type === 'SELECT' ? options.split(',') : []);
+      setName('');
+      setOptions('');
+      setType('TEXT');
+      await load();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to add field');
+    }
+  };
+
+  const handleDelete = (field: CustomField) => {
+    Alert.alert('Delete Field', `Delete "${field.name}" and the value every debtor has for it?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteCustomField(db, field.id);
+            await load();
+          } catch (error: any) {
+            Alert.alert('Error', error?.message ?? 'Failed to delete field');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {fields.length === 0 && <Text style={styles.emptyText}>No custom fields yet.</Text>}
+        {fields.map((field) => (
+          <View key={field.id} style={styles.fieldCard}>
+            <View style={styles.fieldInfo}>
+              <Text style={styles.fieldName}>{field.name}</Text>
+              <Text style={styles.fieldType}>
+                {TYPE_LABELS[field.type]}
+                {field.type === 'SELECT' ? `: ${field.options.join(', ')}` : ''}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDelete(field)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.addSection}>
+          <Text style={styles.sectionTitle}>New Field</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Field name (e.g. Employer)"
+            placeholderTextColor="#9ba1a6"
+            value={name}
+            onChangeText={setName}
+          />
+          <View style={styles.choiceRow}>
+            {(Object.keys(TYPE_LABELS) as CustomFieldType[]).map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.choiceButton, type === key && styles.choiceButtonActive]}
+                onPress={() => setType(key)}
+              >
+                <Text style={styles.choiceText}>{TYPE_LABELS[key]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {type === 'SELECT' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Options, separated by commas"
+              placeholderTextColor="#9ba1a6"
+              value={options}
+              onChangeText={setOptions}
+            />
+          )}
+          <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+            <Text style={styles.addButtonText}>Add Field</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  fieldCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    gap: 12,
+  },
+  fieldInfo: {
+    flex: 1,
+  },
+  fieldName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fieldType: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  deleteText: {
+    color: '#ef4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  addSection: {
+    marginTop: 18,
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+    paddingTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  input: {
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 12,
+    color: '#fff',
+    fontSize: 16,
+    marginTop: 12,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    alignItems: 'center',
+  },
+  choiceButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  choiceText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  addButton: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 10,
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
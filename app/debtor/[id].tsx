@@ -1,13 +1,71 @@
+import AddAdjustmentModal, { BalanceChangeType } from '@/components/AddAdjustmentModal';
 import AddDebtModal from '@/components/AddDebtModal';
 import AddPaymentModal from '@/components/AddPaymentModal';
+import DebtAgingSummary from '@/components/DebtAgingSummary';
+import EditProfileModal from '@/components/EditProfileModal';
+import EditTransactionModal from '@/components/EditTransactionModal';
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import TransactionFilters from '@/components/TransactionFilters';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import { getAllocationSummary } from '@/database/allocationService';
+import { archiveDebtor, unarchiveDebtor } from '@/database/archiveService';
+import { getLatestAuditId } from '@/database/auditService';
+import { getCustomFields } from '@/database/customFieldService';
 import { logDbStatus, useSQLiteContext } from '@/database/db';
-import { addTransaction, deleteDebtor, getDebtorById, getTransactionsForDebtor, updateDebtor, updateDebtorBalance } from '@/database/debtorService';
-import { Debtor } from '@/types/debtor';
+import {
+  deleteDebtor,
+  EMPTY_PROFILE,
+  getDebtorById,
+  getMonthlyTotals,
+  getTransactionsPage,
+  profileOf,
+  updateDebtor,
+  updateDebtorProfile,
+} from '@/database/debtorService';
+import { deleteInstallmentPlan, getInstallmentPlansForDebtor } from '@/database/installmentService';
+import {
+    deleteTransaction,
+    recordAdjustment,
+    recordDebt,
+    recordPayment,
+    recordWaiver,
+    recordWriteOff,
+    updateTransaction,
+} from '@/database/ledgerService';
+import { getDefaultCountry } from '@/database/phoneService';
+import { undoAction } from '@/database/undoService';
+import { DebtSettlement, DebtStatus, PaymentAllocation, PaymentAllocationInput } from '@/types/allocation';
+import { AuditEntity } from '@/types/audit';
+import { CustomField } from '@/types/customField';
+import { CounterpartyKind, Debtor, DebtorProfile } from '@/types/debtor';
+import { InstallmentPlan, InstallmentPlanInput } from '@/types/installment';
+import { PhoneLabel, PhoneNumber } from '@/types/phone';
+import {
+    MonthTotal,
+    TimelineEntry,
+    Transaction,
+    TransactionCursor,
+    TransactionFilter,
+    TransactionType,
+} from '@/types/transaction';
+import { formatMoney, MinorUnits } from '@/utils/money';
+import {
+  Country,
+  DEFAULT_COUNTRY_CODE,
+  findCountry,
+  formatPhone,
+  nextPhoneLabel,
+  normalizePhone,
+  PHONE_LABELS,
+  phoneFormatHint,
+  whatsAppNumber,
+} from '@/utils/phone';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
-import { useCallback, useEffect, useState } from 'react';
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+    ActivityIndicator,
     Alert,
     Linking,
     Modal,
@@ -19,20 +77,137 @@ import {
     View,
 } from 'react-native';
 
+const transactionIcon = (tx: Transaction): string => {
+  if (tx.charge_kind === 'INTEREST') return '📈';
+  if (tx.charge_kind === 'LATE_FEE') return '⏰';
+  if (tx.type === 'OPENING') return '🏁';
+  if (tx.type === 'ADJUSTMENT') return '⚖️';
+  if (tx.type === 'WAIVER') return '🤝';
+  if (tx.type === 'WRITE_OFF') return '🚫';
+  return tx.type === 'IN' ? '⬇️' : '⬆️';
+};
+
+// The same IN/OUT entries read differently for someone we owe: OUT is money
+// we borrowed from them and IN is money we paid back
+const ENTRY_LABELS: Record<CounterpartyKind, { in: string; out: string; inFilter: string; outFilter: string }> = {
+  DEBTOR: { in: 'Received Payment', out: 'Add Debt', inFilter: 'Received', outFilter: 'Debt' },
+  CREDITOR: { in: 'Paid Back', out: 'Borrowed', inFilter: 'Paid back', outFilter: 'Borrowed' },
+};
+
+const filtersFor = (kind: CounterpartyKind): { type: 'ALL' | TransactionType; label: string }[] => [
+  { type: 'ALL', label: 'All' },
+  { type: 'IN', label: ENTRY_LABELS[kind].inFilter },
+  { type: 'OUT', label: ENTRY_LABELS[kind].outFilter },
+  { type: 'WAIVER', label: 'Waived' },
+  { type: 'WRITE_OFF', label: 'Written off' },
+  { type: 'ADJUSTMENT', label: 'Adjustments' },
+];
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// "2026-03" -> "March 2026"
+const formatMonth = (month: string): string => {
+  const [year, monthNumber] = month.split('-');
+  return `${MONTH_NAMES[Number(monthNumber) - 1] ?? monthNumber} ${year}`;
+};
+
+// Split transactions, already in display order, into runs of the same month
+const groupByMonth = (transactions: TimelineEntry[]): { month: string; transactions: TimelineEntry[] }[] => {
+  const groups: { month: string; transactions: TimelineEntry[] }[] = [];
+  for (const tx of transactions) {
+    const month = tx.date.slice(0, 7);
+    const last = groups[groups.length - 1];
+    if (last?.month === month) {
+      last.transactions.push(tx);
+    } else {
+      groups.push({ month, transactions: [tx] });
+    }
+  }
+  return groups;
+};
+
+// How close to the bottom, in points, the history starts loading older entries
+const LOAD_MORE_DISTANCE = 400;
+
+const BALANCE_CHANGE_RECORDERS = {
+  WAIVER: recordWaiver,
+  WRITE_OFF: recordWriteOff,
+  ADJUSTMENT: recordAdjustment,
+};
+
+const BALANCE_CHANGE_LABELS: Record<BalanceChangeType, string> = {
+  WAIVER: 'Waiver',
+  WRITE_OFF: 'Write-off',
+  ADJUSTMENT: 'Adjustment',
+};
+
+const SETTLEMENT_LABELS: Record<DebtSettlement, string> = {
+  OPEN: 'Open',
+  PARTIAL: 'Partially paid',
+  SETTLED: 'Settled',
+};
+
+// IN/OUT are shown from the cash point of view, which is reversed for a
+// creditor; signed entries show their effect on the balance
+const formatTransactionAmount = (tx: Transaction, kind: CounterpartyKind): string => {
+  if (tx.type === 'OPENING') {
+    return `Opening balance ${formatMoney(tx.amount)}`;
+  }
+  if (tx.type === 'ADJUSTMENT') {
+    return `Adjustment ${tx.amount >= 0 ? '+' : '-'}${formatMoney(Math.abs(tx.amount))}`;
+  }
+  if (tx.type === 'WAIVER') {
+    return `Waived -${formatMoney(tx.amount)}`;
+  }
+  if (tx.type === 'WRITE_OFF') {
+    return `Written off -${formatMoney(tx.amount)}`;
+  }
+  const cashIn = (tx.type === 'IN') === (kind === 'DEBTOR');
+  return `${cashIn ? '+' : '-'}${formatMoney(tx.amount)}`;
+};
+
 export default function DebtorDetailScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // transactionId is set when arriving from a search match on a note
+  const { id, transactionId } = useLocalSearchParams<{ id: string; transactionId?: string }>();
+  const highlightedId = transactionId ? Number(transactionId) : null;
+  const scrollRef = useRef<ScrollView>(null);
+  const transactionsSectionY = useRef(0);
+  const scrolledToHighlight = useRef(false);
+  // Scroll events arrive faster than loadingMore updates
+  const loadingMoreRef = useRef(false);
   const router = useRouter();
   const db = useSQLiteContext();
   const [debtor, setDebtor] = useState<Debtor | null>(null);
   const [loading, setLoading] = useState(true);
-  const [transactions, setTransactions] = useState<Array<any>>([]);
+  const [transactions, setTransactions] = useState<TimelineEntry[]>([]);
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
+  const [debtStatuses, setDebtStatuses] = useState<DebtStatus[]>([]);
+  const [allocations, setAllocations] = useState<PaymentAllocation[]>([]);
   const [showDebtModal, setShowDebtModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
-  const [filterType, setFilterType] = useState<'ALL' | 'IN' | 'OUT'>('ALL');
+  const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
+  const [filterType, setFilterType] = useState<'ALL' | TransactionType>('ALL');
+  // Date, amount and note filters; the type comes from filterType
+  const [rangeFilter, setRangeFilter] = useState<TransactionFilter>({});
+  const [nextTransactions, setNextTransactions] = useState<TransactionCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [monthTotals, setMonthTotals] = useState<MonthTotal[]>([]);
   const [addPhoneModalVisible, setAddPhoneModalVisible] = useState(false);
   const [newPhoneValue, setNewPhoneValue] = useState('');
+  const [newPhoneLabel, setNewPhoneLabel] = useState<PhoneLabel>('MOBILE');
+  const [country, setCountry] = useState<Country>(findCountry(DEFAULT_COUNTRY_CODE));
   const [deleteConfirmVisible, setDeleteConfirmVisible] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [showProfileModal, setShowProfileModal] = useState(false);
+  // Confirmation of the last change, with an undo button
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  // The audit entry the snackbar's undo reverts
+  const [undoAuditId, setUndoAuditId] = useState<number | null>(null);
 
   // Reload data whenever screen comes into focus
   useFocusEffect(
@@ -52,7 +227,7 @@ export default function DebtorDetailScreen() {
       loadTransactions();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [debtor, filterType]);
+  }, [debtor, filterType, rangeFilter]);
 
   const loadDebtor = async (retryCount = 0) => {
     try {
@@ -66,6 +241,8 @@ export default function DebtorDetailScreen() {
       await logDbStatus(db, `debtor:${id}:attempt-${retryCount}`);
       const data = await getDebtorById(db, Number(id));
       setDebtor(data);
+      setCustomFields(await getCustomFields(db));
+      setCountry(await getDefaultCountry(db));
     } catch (error: any) {
       console.error('[debtor detail] Error loading debtor:', error);
       
@@ -85,6 +262,9 @@ export default function DebtorDetailScreen() {
     }
   };
 
+  const transactionFilter: TransactionFilter = { ...rangeFilter, type: filterType === 'ALL' ? undefined : filterType };
+  const totalsByMonth = new Map(monthTotals.map((total) => [total.month, total]));
+
   const loadTransactions = async (retryCount = 0) => {
     if (!debtor) return;
     
@@ -95,8 +275,14 @@ export default function DebtorDetailScreen() {
       }
       
       await logDbStatus(db, `transactions:${debtor.id}:attempt-${retryCount}`);
-      let txs = await getTransactionsForDebtor(db, debtor.id, filterType === 'ALL' ? undefined : filterType);
-      setTransactions(txs);
+      const page = await getTransactionsPage(db, debtor.id, transactionFilter);
+      setTransactions(page.transactions);
+      setNextTransactions(page.next);
+      setMonthTotals(await getMonthlyTotals(db, debtor.id, transactionFilter));
+      setInstallmentPlans(await getInstallmentPlansForDebtor(db, debtor.id));
+      const summary = await getAllocationSummary(db, debtor.id);
+      setDebtStatuses(summary.debts);
+      setAllocations(summary.allocations);
     } catch (error: any) {
       console.error('[debtor detail] Error loading transactions:', error);
       
@@ -111,9 +297,35 @@ export default function DebtorDetailScreen() {
       }
       
       setTransactions([]); // Set empty array on final failure
+      setNextTransactions(null);
+    }
+  };
+
+  const loadMoreTransactions = async () => {
+    if (!debtor || !nextTransactions || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await getTransactionsPage(db, debtor.id, transactionFilter, nextTransactions);
+      setTransactions((loaded) => [...loaded, ...page.transactions]);
+      setNextTransactions(page.next);
+    } catch (error) {
+      console.error('[debtor detail] Error loading more transactions:', error);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
     }
   };
 
+  // A transaction opened from search may be further back than the first page
+  useEffect(() => {
+    if (highlightedId === null || scrolledToHighlight.current || !nextTransactions) return;
+    if (!transactions.some((tx) => tx.id === highlightedId)) {
+      loadMoreTransactions();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transactions, nextTransactions, highlightedId]);
+
   const handleCall = (phoneNumber: string) => {
     Linking.openURL(`tel:${phoneNumber}`);
   };
@@ -121,14 +333,8 @@ export default function DebtorDetailScreen() {
   const handleWhatsApp = (phoneNumber: string) => {
     if (!debtor) return;
     const balance = debtor.balance;
-    const message = `Balance = Rs.${Math.abs(balance).toFixed(2)}. `;
-    let digits = phoneNumber.replaceAll(/\D/g, '');
-    if (digits.startsWith('0')) {
-      digits = '94' + digits.slice(1);
-    } else if (!digits.startsWith('94')) {
-      digits = '94' + digits;
-    }
-    const url = `https://wa.me/${digits}?text=${encodeURIComponent(message)}`;
+    const message = `Balance = ${formatMoney(Math.abs(balance))}. `;
+    const url = `https://wa.me/${whatsAppNumber(phoneNumber, country)}?text=${encodeURIComponent(message)}`;
     Linking.openURL(url);
   };
 
@@ -139,25 +345,25 @@ export default function DebtorDetailScreen() {
 
   const handleAddPhone = () => {
     setNewPhoneValue('');
+    setNewPhoneLabel('MOBILE');
     setAddPhoneModalVisible(true);
   };
 
   const handleAddPhoneSubmit = async () => {
     if (!debtor || !newPhoneValue.trim()) return;
     
-    // Validate phone number: exactly 10 digits
-    const digits = newPhoneValue.trim().replaceAll(/\D/g, '');
-    if (digits.length !== 10) {
-      Alert.alert('Invalid Phone Number', 'Phone number must be exactly 10 digits.');
+    const number = normalizePhone(newPhoneValue, country);
+    if (!number) {
+      Alert.alert('Invalid Phone Number', phoneFormatHint(country));
       return;
     }
     
     try {
-      const updatedPhones = [...debtor.phoneNumbers, newPhoneValue.trim()];
-      await updateDebtor(db, debtor.id, debtor.name, updatedPhones, debtor.balance);
+      const updatedPhones = [...(debtor.phones ?? []), { number, label: newPhoneLabel, isPrimary: false }];
+      await updateDebtor(db, debtor.id, debtor.name, updatedPhones);
       await loadDebtor();
       setAddPhoneModalVisible(false);
-      Alert.alert('Success', 'Phone number added successfully');
+      await offerUndo('Phone number added', 'DEBTOR', debtor.id);
     } catch (error) {
       console.error('Error adding phone number:', error);
       Alert.alert('Error', 'Failed to add phone number');
@@ -167,16 +373,40 @@ export default function DebtorDetailScreen() {
   const performDeletePhone = async (idx: number) => {
     if (!debtor) return;
     try {
-      const updatedPhones = debtor.phoneNumbers.filter((_, i) => i !== idx);
-      await updateDebtor(db, debtor.id, debtor.name, updatedPhones, debtor.balance);
+      const updatedPhones = (debtor.phones ?? []).filter((_, i) => i !== idx);
+      await updateDebtor(db, debtor.id, debtor.name, updatedPhones);
       await loadDebtor();
-      Alert.alert('Success', 'Phone number deleted successfully');
+      await offerUndo('Phone number deleted', 'DEBTOR', debtor.id);
     } catch (error) {
       console.error('Error deleting phone number:', error);
       Alert.alert('Error', 'Failed to delete phone number');
     }
   };
 
+  const savePhones = async (updatedPhones: PhoneNumber[], message: string) => {
+    if (!debtor) return;
+    try {
+      await updateDebtor(db, debtor.id, debtor.name, updatedPhones);
+      await loadDebtor();
+      await offerUndo(message, 'DEBTOR', debtor.id);
+    } catch (error) {
+      console.error('Error updating phone number:', error);
+      Alert.alert('Error', 'Failed to update phone number');
+    }
+  };
+
+  const handleCyclePhoneLabel = (index: number) => {
+    const updatedPhones = (debtor?.phones ?? []).map((phone, i) =>
+      i === index ? { ...phone, label: nextPhoneLabel(phone.label) } : phone
+    );
+    void savePhones(updatedPhones, 'Phone label changed');
+  };
+
+  const handleMakePrimary = (index: number) => {
+    const updatedPhones = (debtor?.phones ?? []).map((phone, i) => ({ ...phone, isPrimary: i === index }));
+    void savePhones(updatedPhones, 'Primary number changed');
+  };
+
   const handleDeletePhone = (index: number) => {
     if (!debtor) return;
     Alert.alert('Delete Phone Number', 'Are you sure you want to delete this phone number?', [
@@ -189,37 +419,185 @@ export default function DebtorDetailScreen() {
     ]);
   };
 
+  const handleSaveProfile = async (profile: DebtorProfile) => {
+    if (!debtor) return;
+    try {
+      await updateDebtorProfile(db, debtor.id, profile);
+      await loadDebtor();
+      await offerUndo('Profile updated', 'DEBTOR', debtor.id);
+    } catch (error: any) {
+      console.error('Error updating profile:', error);
+      Alert.alert('Error', error?.message ?? 'Failed to update profile');
+    }
+  };
+
   const handleAddPayment = () => setShowPaymentModal(true);
   const handleAddDebt = () => setShowDebtModal(true);
+  const handleAdjustBalance = () => setShowAdjustmentModal(true);
 
-  const handleSubmitPayment = async (amount: number, date: string, time: string, note: string) => {
+  const handleSubmitPayment = async (
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string,
+    paymentAllocations: PaymentAllocationInput[] | null
+  ) => {
     if (!debtor) return;
     try {
-      await addTransaction(db, debtor.id, 'IN', date, time, amount, note);
-      await updateDebtorBalance(db, debtor.id, debtor.balance - amount);
-      await loadDebtor();
-      await loadTransactions();
-      Alert.alert('Success', `Payment of Rs.${amount.toFixed(2)} added`);
-    } catch {
-      Alert.alert('Error', 'Failed to add payment');
+      const { debtor: updated, transaction } = await recordPayment(db, debtor.id, {
+        amount,
+        date,
+        time,
+        note,
+        allocations: paymentAllocations,
+      });
+      // Updating the debtor re-runs the transactions effect
+      setDebtor(updated);
+      await offerUndo(`Payment of ${formatMoney(amount)} added`, 'TRANSACTION', transaction.id);
+    } catch (error: any) {
+      console.error('Error adding payment:', error);
+      Alert.alert('Error', error?.message ?? 'Failed to add payment');
     }
     setShowPaymentModal(false);
   };
 
-  const handleSubmitDebt = async (amount: number, date: string, time: string, note: string) => {
+  const handleSubmitDebt = async (
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string,
+    dueDate: string | null,
+    installmentPlan: InstallmentPlanInput | null
+  ) => {
     if (!debtor) return;
     try {
-      await addTransaction(db, debtor.id, 'OUT', date, time, amount, note);
-      await updateDebtorBalance(db, debtor.id, debtor.balance + amount);
-      await loadDebtor();
-      await loadTransactions();
-      Alert.alert('Success', `Debt of Rs.${amount.toFixed(2)} added`);
-    } catch {
-      Alert.alert('Error', 'Failed to add debt');
+      const { debtor: updated, transaction } = await recordDebt(db, debtor.id, {
+        amount,
+        date,
+        time,
+        note,
+        dueDate,
+        installmentPlan,
+      });
+      setDebtor(updated);
+      await offerUndo(`Debt of ${formatMoney(amount)} added`, 'TRANSACTION', transaction.id);
+    } catch (error: any) {
+      console.error('Error adding debt:', error);
+      Alert.alert('Error', error?.message ?? 'Failed to add debt');
     }
     setShowDebtModal(false);
   };
 
+  const handleSubmitAdjustment = async (
+    type: BalanceChangeType,
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string
+  ) => {
+    if (!debtor) return;
+    try {
+      const { debtor: updated, transaction } = await BALANCE_CHANGE_RECORDERS[type](db, debtor.id, {
+        amount,
+        date,
+        time,
+        note,
+      });
+      setDebtor(updated);
+      await offerUndo(
+        `${BALANCE_CHANGE_LABELS[type]} of ${formatMoney(Math.abs(amount))} added`,
+        'TRANSACTION',
+        transaction.id
+      );
+    } catch (error: any) {
+      console.error(`Error adding ${BALANCE_CHANGE_LABELS[type].toLowerCase()}:`, error);
+      Alert.alert('Error', error?.message ?? `Failed to add ${BALANCE_CHANGE_LABELS[type].toLowerCase()}`);
+    }
+    setShowAdjustmentModal(false);
+  };
+
+  const handleSaveTransaction = async (
+    txId: number,
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string,
+    dueDate: string | null
+  ) => {
+    try {
+      const { debtor: updated } = await updateTransaction(db, txId, { amount, date, time, note, dueDate });
+      setDebtor(updated);
+      setSelectedTransaction(null);
+      await offerUndo('Transaction updated', 'TRANSACTION', txId);
+    } catch (error: any) {
+      console.error('Error updating transaction:', error);
+      Alert.alert('Error', error?.message ?? 'Failed to update transaction');
+    }
+  };
+
+  const handleRemoveInstallmentPlan = async (planId: number) => {
+    const plan = installmentPlans.find((p) => p.id === planId);
+    try {
+      await deleteInstallmentPlan(db, planId);
+      await loadDebtor();
+      if (plan) {
+        await offerUndo('Installment plan removed', 'TRANSACTION', plan.transactionId);
+      }
+    } catch (error) {
+      console.error('Error removing installment plan:', error);
+      Alert.alert('Error', 'Failed to remove installment plan');
+    }
+  };
+
+  const handleDeleteTransaction = async (txId: number) => {
+    try {
+      const updated = await deleteTransaction(db, txId);
+      setDebtor(updated);
+      setSelectedTransaction(null);
+      await offerUndo('Transaction deleted', 'TRANSACTION', txId);
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+      Alert.alert('Error', 'Failed to delete transaction');
+    }
+  };
+
+  // Show the undo snackbar for the change just made to a debtor or transaction
+  const offerUndo = async (message: string, entity: AuditEntity, entityId: number) => {
+    setUndoAuditId(await getLatestAuditId(db, entity, entityId));
+    setUndoMessage(message);
+  };
+
+  const handleUndo = async (auditId: number | null) => {
+    setUndoMessage(null);
+    try {
+      if (auditId === null) {
+        throw new Error('There is nothing to undo');
+      }
+      await undoAction(db, auditId);
+      await loadDebtor();
+    } catch (error: any) {
+      Alert.alert('Undo Failed', error?.message ?? 'Failed to undo');
+    }
+  };
+
+  const dismissUndo = useCallback(() => setUndoMessage(null), []);
+
+  const handleArchive = async () => {
+    if (!debtor) return;
+    try {
+      if (debtor.archivedAt) {
+        await unarchiveDebtor(db, debtor.id);
+        await offerUndo('Debtor unarchived', 'DEBTOR', debtor.id);
+      } else {
+        await archiveDebtor(db, debtor.id);
+        await offerUndo('Debtor archived', 'DEBTOR', debtor.id);
+      }
+      await loadDebtor();
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to update archive');
+    }
+  };
+
   const handleDelete = () => {
     if (!debtor) return;
     setDeleteConfirmText('');
@@ -234,15 +612,34 @@ export default function DebtorDetailScreen() {
     }
     try {
       await deleteDebtor(db, debtor.id);
+      const auditId = await getLatestAuditId(db, 'DEBTOR', debtor.id);
       setDeleteConfirmVisible(false);
-      Alert.alert('Success', 'Debtor deleted successfully');
-      router.back();
+      Alert.alert('Moved to Trash', 'You can restore this debtor from the trash on the Debtors tab', [
+        { text: 'Undo', onPress: () => handleUndo(auditId) },
+        { text: 'OK', onPress: () => router.back() },
+      ]);
     } catch (error) {
       console.error('Error deleting debtor:', error);
       Alert.alert('Error', 'Failed to delete debtor');
     }
   };
 
+  // Memoised so the profile editor is not reset by unrelated re-renders
+  const profile = useMemo(() => (debtor ? profileOf(debtor) : null), [debtor]);
+
+  // Filled-in profile fields, in the order the editor shows them
+  const profileRows = useMemo(() => {
+    if (!profile) return [];
+    const rows = [
+      { label: 'Address', value: profile.address },
+      { label: 'Email', value: profile.email },
+      { label: 'ID Number', value: profile.nationalId },
+      ...customFields.map((field) => ({ label: field.name, value: profile.customValues[field.id] })),
+      { label: 'Notes', value: profile.notes },
+    ];
+    return rows.filter((row): row is { label: string; value: string } => !!row.value);
+  }, [profile, customFields]);
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -273,20 +670,35 @@ export default function DebtorDetailScreen() {
           <Text style={styles.name}>{debtor.name}</Text>
           <View style={styles.balanceContainer}>
             <Text style={[styles.balance, debtor.balance > 0 ? styles.balancePositive : styles.balanceZero]}>
-              Rs.{Math.abs(debtor.balance).toFixed(2)}
+              {formatMoney(Math.abs(debtor.balance))}
             </Text>
             <Text style={styles.balanceNote}>
               {(() => {
-                if (debtor.balance > 0) return 'owes you';
                 if (debtor.balance === 0) return 'settled';
-                return 'you owe';
+                // A creditor's balance is what we owe them
+                return (debtor.balance > 0) === (debtor.kind === 'DEBTOR') ? 'owes you' : 'you owe';
               })()}
             </Text>
           </View>
+          {debtor.overdueAmount > 0 && (
+            <View style={styles.overdueBadge}>
+              <Text style={styles.overdueBadgeText}>⏰ {formatMoney(debtor.overdueAmount)} overdue</Text>
+            </View>
+          )}
         </View>
       </View>
 
-      <ScrollView style={styles.scrollContent}>
+      <ScrollView
+        ref={scrollRef}
+        style={styles.scrollContent}
+        scrollEventThrottle={200}
+        onScroll={({ nativeEvent }) => {
+          const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+          if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_DISTANCE) {
+            loadMoreTransactions();
+          }
+        }}
+      >
       {/* Phone Numbers Section */}
       <View style={styles.section}>
         <View style={styles.phoneTitleRow}>
@@ -295,25 +707,39 @@ export default function DebtorDetailScreen() {
             <Ionicons name="add-circle" size={26} color="#3b82f6" />
           </TouchableOpacity>
         </View>
-        {debtor.phoneNumbers.map((phone, index) => (
-          <View key={phone + index} style={styles.phoneCardRedesign}>
-            <Text style={styles.phoneNumber}>{phone}</Text>
+        {(debtor.phones ?? []).map((phone, index) => (
+          <View key={phone.number + index} style={styles.phoneCardRedesign}>
+            <View style={styles.phoneInfo}>
+              <Text style={styles.phoneNumber}>{formatPhone(phone.number)}</Text>
+              <View style={styles.phoneMetaRow}>
+                <TouchableOpacity onPress={() => handleCyclePhoneLabel(index)}>
+                  <Text style={styles.phoneLabel}>{PHONE_LABELS[phone.label]}</Text>
+                </TouchableOpacity>
+                {phone.isPrimary ? (
+                  <Text style={styles.phonePrimary}>★ Primary</Text>
+                ) : (
+                  <TouchableOpacity onPress={() => handleMakePrimary(index)}>
+                    <Text style={styles.phoneMakePrimary}>☆ Make primary</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
             <View style={styles.phoneActionsRedesign}>
               <TouchableOpacity
                 style={styles.iconButton}
-                onPress={() => handleCall(phone)}
+                onPress={() => handleCall(phone.number)}
               >
                 <Ionicons name="call" size={22} color="#4caf50" />
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.iconButton}
-                onPress={() => handleWhatsApp(phone)}
+                onPress={() => handleWhatsApp(phone.number)}
               >
                 <Ionicons name="logo-whatsapp" size={22} color="#25D366" />
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.iconButton}
-                onPress={() => handleCopy(phone)}
+                onPress={() => handleCopy(phone.number)}
               >
                 <Ionicons name="copy" size={22} color="#f59e42" />
               </TouchableOpacity>
@@ -328,62 +754,170 @@ export default function DebtorDetailScreen() {
         ))}
       </View>
 
-      {/* Transaction Actions & Filter */}
+      {/* Profile Section */}
       <View style={styles.section}>
+        <View style={styles.phoneTitleRow}>
+          <Text style={styles.sectionTitle}>Profile</Text>
+          <TouchableOpacity onPress={() => setShowProfileModal(true)}>
+            <Ionicons name="create-outline" size={24} color="#3b82f6" />
+          </TouchableOpacity>
+        </View>
+        {profileRows.length > 0 ? (
+          <View style={styles.infoCard}>
+            {profileRows.map((row) => (
+              <View key={row.label} style={styles.infoRow}>
+                <Text style={styles.infoLabel}>{row.label}</Text>
+                <Text style={[styles.infoValue, styles.profileValue]} selectable>
+                  {row.value}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.profileEmptyText}>No address, email or other details yet.</Text>
+        )}
+        <TouchableOpacity onPress={() => router.push('/custom-fields')}>
+          <Text style={styles.manageFieldsText}>Manage custom fields</Text>
+        </TouchableOpacity>
+      </View>
+
+      <DebtAgingSummary debts={debtStatuses} />
+
+      <InstallmentSchedule plans={installmentPlans} onRemove={handleRemoveInstallmentPlan} />
+
+      {/* Transaction Actions & Filter */}
+      <View style={styles.section} onLayout={(e) => { transactionsSectionY.current = e.nativeEvent.layout.y; }}>
         <Text style={styles.sectionTitle}>Transactions</Text>
         <View style={styles.transactionButtons}>
           <TouchableOpacity style={styles.transactionButton} onPress={handleAddPayment}>
             <Text style={styles.transactionButtonIcon}>💵</Text>
-            <Text style={styles.transactionButtonText}>Received Payment</Text>
+            <Text style={styles.transactionButtonText}>{ENTRY_LABELS[debtor.kind].in}</Text>
           </TouchableOpacity>
           <TouchableOpacity style={styles.transactionButton} onPress={handleAddDebt}>
             <Text style={styles.transactionButtonIcon}>➕</Text>
-            <Text style={styles.transactionButtonText}>Add Debt</Text>
-          </TouchableOpacity>
-        </View>
-        <View style={styles.filterRow}>
-          <TouchableOpacity onPress={() => setFilterType('ALL')} style={[styles.filterButton, filterType === 'ALL' && styles.filterButtonActive]}>
-            <Text style={styles.filterButtonText}>All</Text>
-          </TouchableOpacity>
-          <TouchableOpacity onPress={() => setFilterType('IN')} style={[styles.filterButton, filterType === 'IN' && styles.filterButtonActive]}>
-            <Text style={styles.filterButtonText}>Received</Text>
-          </TouchableOpacity>
-          <TouchableOpacity onPress={() => setFilterType('OUT')} style={[styles.filterButton, filterType === 'OUT' && styles.filterButtonActive]}>
-            <Text style={styles.filterButtonText}>Debt</Text>
+            <Text style={styles.transactionButtonText}>{ENTRY_LABELS[debtor.kind].out}</Text>
           </TouchableOpacity>
         </View>
-        {/* Transactions List */}
+        <TouchableOpacity style={styles.adjustBalanceButton} onPress={handleAdjustBalance}>
+          <Text style={styles.adjustBalanceText}>🤝 Waive, Write Off or Adjust</Text>
+        </TouchableOpacity>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {filtersFor(debtor.kind).map((filter) => (
+            <TouchableOpacity
+              key={filter.type}
+              onPress={() => setFilterType(filter.type)}
+              style={[styles.filterButton, filterType === filter.type && styles.filterButtonActive]}
+            >
+              <Text style={styles.filterButtonText}>{filter.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <TransactionFilters filter={rangeFilter} onChange={setRangeFilter} />
+        {/* Transactions List, grouped by month */}
         {transactions.length === 0 ? (
           <Text style={styles.noTransactions}>No transactions found.</Text>
         ) : (
-          transactions.map(tx => (
-            <View key={tx.id} style={styles.transactionCard}>
-              <View style={styles.transactionRow}>
-                <Text style={styles.transactionIcon}>{tx.type === 'IN' ? '⬇️' : '⬆️'}</Text>
-                <View style={styles.transactionInfo}>
-                  <Text style={styles.transactionAmount}>{tx.type === 'IN' ? '+' : '-'}Rs.{tx.amount.toFixed(2)}</Text>
-                  <Text style={styles.transactionNote}>{tx.note || ''}</Text>
-                </View>
-                <View style={styles.transactionMeta}>
-                  <Text style={styles.transactionDate}>{tx.date}</Text>
-                  <Text style={styles.transactionTime}>{tx.time}</Text>
+          groupByMonth(transactions).map((group, groupIndex) => {
+            const total = totalsByMonth.get(group.month);
+            return (
+              <Fragment key={`${group.month}-${groupIndex}`}>
+                <View style={styles.monthHeader}>
+                  <Text style={styles.monthTitle}>{formatMonth(group.month)}</Text>
+                  {total && (
+                    <Text style={styles.monthTotals}>
+                      <Text style={styles.monthRaised}>+{formatMoney(total.raised)}</Text>
+                      {'  '}
+                      <Text style={styles.monthLowered}>−{formatMoney(total.lowered)}</Text>
+                    </Text>
+                  )}
                 </View>
-              </View>
-            </View>
-          ))
+                {group.transactions.map(tx => {
+                  const debtStatus = debtStatuses.find((debt) => debt.transactionId === tx.id);
+                  const appliedTo = allocations.filter((allocation) => allocation.payment_id === tx.id);
+                  return (
+                    <TouchableOpacity
+                      key={tx.id}
+                      style={[styles.transactionCard, tx.id === highlightedId && styles.transactionCardHighlighted]}
+                      onPress={() => setSelectedTransaction(tx)}
+                      onLayout={(e) => {
+                        if (tx.id !== highlightedId || scrolledToHighlight.current) return;
+                        scrolledToHighlight.current = true;
+                        scrollRef.current?.scrollTo({ y: transactionsSectionY.current + e.nativeEvent.layout.y - 12, animated: true });
+                      }}
+                    >
+                      <View style={styles.transactionRow}>
+                        <Text style={styles.transactionIcon}>{transactionIcon(tx)}</Text>
+                        <View style={styles.transactionInfo}>
+                          <Text style={styles.transactionAmount}>{formatTransactionAmount(tx, debtor.kind)}</Text>
+                          <Text style={styles.transactionNote}>{tx.note || ''}</Text>
+                          {tx.due_date && <Text style={styles.transactionDue}>Due {tx.due_date}</Text>}
+                          {debtStatus && (
+                            <View style={styles.settlementRow}>
+                              <Text style={[styles.settlementBadge, styles[`settlement${debtStatus.status}`]]}>
+                                {SETTLEMENT_LABELS[debtStatus.status]}
+                              </Text>
+                              {debtStatus.unpaid > 0 && (
+                                <Text style={styles.settlementMeta}>
+                                  {formatMoney(debtStatus.unpaid)} unpaid • {debtStatus.ageDays} days old
+                                </Text>
+                              )}
+                            </View>
+                          )}
+                          {appliedTo.map((allocation) => (
+                            <Text key={allocation.id} style={styles.allocationText}>
+                              → {formatMoney(allocation.amount)} to debt of{' '}
+                              {debtStatuses.find((debt) => debt.transactionId === allocation.debt_id)?.date ?? '?'}
+                            </Text>
+                          ))}
+                        </View>
+                        <View style={styles.transactionMeta}>
+                          <Text style={styles.transactionDate}>{tx.date}</Text>
+                          <Text style={styles.transactionTime}>{tx.time}</Text>
+                          <Text style={styles.transactionBalance}>Bal {formatMoney(tx.balance_after)}</Text>
+                        </View>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </Fragment>
+            );
+          })
         )}
+        {loadingMore && <ActivityIndicator style={styles.loadingMore} color="#3b82f6" />}
       </View>
           {/* Modals for adding debt/payment */}
           <AddDebtModal
             visible={showDebtModal}
+            title={ENTRY_LABELS[debtor.kind].out}
             onClose={() => setShowDebtModal(false)}
             onAdd={handleSubmitDebt}
           />
           <AddPaymentModal
             visible={showPaymentModal}
+            title={ENTRY_LABELS[debtor.kind].in}
+            openDebts={debtStatuses.filter((debt) => debt.unpaid > 0)}
             onClose={() => setShowPaymentModal(false)}
             onAdd={handleSubmitPayment}
           />
+          <AddAdjustmentModal
+            visible={showAdjustmentModal}
+            balance={debtor.balance}
+            onClose={() => setShowAdjustmentModal(false)}
+            onAdd={handleSubmitAdjustment}
+          />
+          <EditProfileModal
+            visible={showProfileModal}
+            profile={profile ?? EMPTY_PROFILE}
+            fields={customFields}
+            onClose={() => setShowProfileModal(false)}
+            onSave={handleSaveProfile}
+          />
+          <EditTransactionModal
+            transaction={selectedTransaction}
+            onClose={() => setSelectedTransaction(null)}
+            onSave={handleSaveTransaction}
+            onDelete={handleDeleteTransaction}
+          />
 
       {/* Add Phone Modal */}
       <Modal visible={addPhoneModalVisible} transparent animationType="fade">
@@ -393,16 +927,23 @@ export default function DebtorDetailScreen() {
             <TextInput
               style={styles.modalInput}
               value={newPhoneValue}
-              onChangeText={(text) => {
-                // Only allow digits
-                const digitsOnly = text.replaceAll(/\D/g, '');
-                setNewPhoneValue(digitsOnly);
-              }}
+              onChangeText={setNewPhoneValue}
               placeholder="Enter phone number"
               keyboardType="phone-pad"
               placeholderTextColor="#9ba1a6"
-              maxLength={10}
             />
+            <Text style={styles.phoneHint}>{phoneFormatHint(country)}</Text>
+            <View style={styles.phoneLabelRow}>
+              {(Object.keys(PHONE_LABELS) as PhoneLabel[]).map((label) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.phoneLabelChip, newPhoneLabel === label && styles.phoneLabelChipActive]}
+                  onPress={() => setNewPhoneLabel(label)}
+                >
+                  <Text style={styles.phoneLabelChipText}>{PHONE_LABELS[label]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
             <View style={styles.modalActionsRow}>
               <TouchableOpacity style={styles.modalButton} onPress={() => setAddPhoneModalVisible(false)}>
                 <Text style={styles.modalButtonText}>Cancel</Text>
@@ -419,9 +960,9 @@ export default function DebtorDetailScreen() {
       <Modal visible={deleteConfirmVisible} transparent animationType="fade">
         <View style={styles.modalOverlay}>
           <View style={styles.modalContentPhone}>
-            <Text style={styles.modalTitle}>Confirm Delete</Text>
+            <Text style={styles.modalTitle}>Move to Trash</Text>
             <Text style={{ color: '#9ba1a6', marginBottom: 12, textAlign: 'center' }}>
-              To delete "{debtor.name}", type <Text style={{ color: '#fff', fontWeight: '700' }}>CONFIRM</Text> below.
+              To move "{debtor.name}" to the trash, type <Text style={{ color: '#fff', fontWeight: '700' }}>CONFIRM</Text> below.
             </Text>
             <TextInput
               style={styles.modalInput}
@@ -443,13 +984,54 @@ export default function DebtorDetailScreen() {
                 disabled={deleteConfirmText.trim() !== 'CONFIRM'}
                 onPress={handleConfirmDelete}
               >
-                <Text style={styles.modalButtonText}>Delete</Text>
+                <Text style={styles.modalButtonText}>Move to Trash</Text>
               </TouchableOpacity>
             </View>
           </View>
         </View>
       </Modal>
 
+      {/* Archive: offered once the balance is settled */}
+      {(debtor.archivedAt || debtor.balance === 0) && (
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.chargeRulesButton} onPress={handleArchive}>
+            <Text style={styles.chargeRulesText}>
+              {debtor.archivedAt ? '📤 Unarchive' : '📦 Archive (Settled)'}
+            </Text>
+            {debtor.archivedAt && (
+              <Text style={styles.archivedText}>
+                Archived {new Date(`${debtor.archivedAt.replace(' ', 'T')}Z`).toLocaleDateString()}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Interest & Late Fees, History, Merge */}
+      <View style={styles.section}>
+        <TouchableOpacity
+          style={styles.chargeRulesButton}
+          onPress={() => router.push({ pathname: '/charge-rules', params: { debtorId: String(debtor.id) } })}
+        >
+          <Text style={styles.chargeRulesText}>📈 Interest & Late Fees</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9ba1a6" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chargeRulesButton, styles.historyButton]}
+          onPress={() => router.push({ pathname: '/history', params: { debtorId: String(debtor.id) } })}
+        >
+          <Text style={styles.chargeRulesText}>🕘 History</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9ba1a6" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chargeRulesButton, styles.historyButton]}
+          onPress={() => router.push({ pathname: '/merge', params: { debtorId: String(debtor.id) } })}
+        >
+          <Text style={styles.chargeRulesText}>🔗 Merge a Duplicate</Text>
+          <Ionicons name="chevron-forward" size={20} color="#9ba1a6" />
+        </TouchableOpacity>
+      </View>
+
       {/* Metadata Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Information</Text>
@@ -474,12 +1056,14 @@ export default function DebtorDetailScreen() {
       {/* Delete Button */}
       <View style={styles.dangerZone}>
         <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
-          <Text style={styles.deleteButtonText}>🗑️ Delete Debtor</Text>
+          <Text style={styles.deleteButtonText}>🗑️ Move to Trash</Text>
         </TouchableOpacity>
       </View>
 
       <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <UndoSnackbar message={undoMessage} onUndo={() => handleUndo(undoAuditId)} onDismiss={dismissUndo} />
     </View>
   );
 }
@@ -591,6 +1175,21 @@ const styles = StyleSheet.create({
     color: '#9ba1a6',
     fontStyle: 'italic',
   },
+  overdueBadge: {
+    alignSelf: 'flex-start',
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+    borderColor: '#ef4444',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginTop: 6,
+  },
+  overdueBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
   scrollContent: {
     flex: 1,
   },
@@ -613,13 +1212,69 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  phoneInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
   phoneNumber: {
     fontSize: 18,
     color: '#fff',
-    marginRight: 12,
     fontWeight: '500',
     letterSpacing: 1,
   },
+  phoneMetaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  phoneLabel: {
+    color: '#d1d5db',
+    fontSize: 12,
+    fontWeight: '600',
+    backgroundColor: '#374151',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  phonePrimary: {
+    color: '#fbbf24',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  phoneMakePrimary: {
+    color: '#9ba1a6',
+    fontSize: 12,
+  },
+  phoneHint: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginBottom: 10,
+  },
+  phoneLabelRow: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  phoneLabelChip: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    alignItems: 'center',
+  },
+  phoneLabelChipActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  phoneLabelChipText: {
+    color: '#fff',
+    fontSize: 14,
+  },
   phoneActionsRedesign: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -648,6 +1303,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  chargeRulesButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 16,
+  },
+  chargeRulesText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  archivedText: {
+    color: '#9ba1a6',
+    fontSize: 13,
+  },
+  historyButton: {
+    marginTop: 10,
+  },
   transactionButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -690,6 +1365,20 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '500',
   },
+  profileValue: {
+    flex: 1,
+    marginLeft: 16,
+    textAlign: 'right',
+  },
+  profileEmptyText: {
+    color: '#9ba1a6',
+    fontSize: 14,
+  },
+  manageFieldsText: {
+    color: '#3b82f6',
+    fontSize: 13,
+    marginTop: 10,
+  },
   dangerZone: {
     padding: 20,
   },
@@ -707,6 +1396,18 @@ const styles = StyleSheet.create({
   bottomSpacer: {
     height: 40,
   },
+  adjustBalanceButton: {
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginTop: 12,
+    alignItems: 'center',
+  },
+  adjustBalanceText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   filterRow: {
     flexDirection: 'row',
     marginTop: 12,
@@ -737,6 +1438,35 @@ const styles = StyleSheet.create({
     padding: 14,
     marginTop: 10,
   },
+  monthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginTop: 18,
+    marginBottom: 2,
+  },
+  monthTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  monthTotals: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  monthRaised: {
+    color: '#ef4444',
+  },
+  monthLowered: {
+    color: '#4caf50',
+  },
+  loadingMore: {
+    paddingVertical: 16,
+  },
+  transactionCardHighlighted: {
+    borderWidth: 2,
+    borderColor: '#fbbf24',
+  },
   transactionRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -759,6 +1489,47 @@ const styles = StyleSheet.create({
     color: '#9ba1a6',
     marginTop: 2,
   },
+  transactionDue: {
+    fontSize: 12,
+    color: '#fbbf24',
+    marginTop: 2,
+  },
+  settlementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  settlementBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    overflow: 'hidden',
+  },
+  settlementOPEN: {
+    color: '#ef4444',
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+  },
+  settlementPARTIAL: {
+    color: '#fbbf24',
+    backgroundColor: 'rgba(251, 191, 36, 0.15)',
+  },
+  settlementSETTLED: {
+    color: '#10b981',
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  settlementMeta: {
+    fontSize: 12,
+    color: '#9ba1a6',
+  },
+  allocationText: {
+    fontSize: 12,
+    color: '#9ba1a6',
+    marginTop: 2,
+  },
   transactionMeta: {
     alignItems: 'flex-end',
   },
@@ -770,6 +1541,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9ba1a6',
   },
+  transactionBalance: {
+    fontSize: 12,
+    color: '#d1d5db',
+    fontWeight: '600',
+    marginTop: 4,
+  },
   phoneTitleRow: {
     flexDirection: 'row',
     alignItems: 'center',
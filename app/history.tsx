@@ -0,0 +1,103 @@
+import { getAuditLogForDebtor } from '@/database/auditService';
+import { useSQLiteContext } from '@/database/db';
+import { AuditEntry } from '@/types/audit';
+import { AUDIT_ICONS, auditDetailLines, describeAuditEntry, formatAuditTimestamp } from '@/utils/auditText';
+import { useLocalSearchParams } from 'expo-router';
+import { useCallback, useEffect, useState } from 'react';
+import { FlatList, StyleSheet, Text, View } from 'react-native';
+
+// Every recorded change to a debtor and their transactions, newest first, so a
+// disputed balance can be traced back to the edits that produced it
+export default function HistoryScreen() {
+  const { debtorId } = useLocalSearchParams<{ debtorId: string }>();
+  const db = useSQLiteContext();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await getAuditLogForDebtor(db, Number(debtorId)));
+    } finally {
+      setLoading(false);
+    }
+  }, [db, debtorId]);
+
+  useEffect(() => {
+    load().catch((e) => console.warn('[History] load failed:', e));
+  }, [load]);
+
+  const renderEntry = ({ item }: { item: AuditEntry }) => (
+    <View style={styles.card}>
+      <Text style={styles.icon}>{AUDIT_ICONS[item.operation]}</Text>
+      <View style={styles.cardInfo}>
+        <Text style={styles.action}>{describeAuditEntry(item)}</Text>
+        {auditDetailLines(item).map((line) => (
+          <Text key={line} style={styles.detail}>
+            {line}
+          </Text>
+        ))}
+        <Text style={styles.timestamp}>{formatAuditTimestamp(item.createdAt)}</Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => String(item.id)}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={
+          loading ? null : <Text style={styles.emptyText}>No changes have been recorded for this debtor yet.</Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    gap: 12,
+  },
+  icon: {
+    fontSize: 20,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  action: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  detail: {
+    color: '#d1d5db',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  timestamp: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginTop: 6,
+  },
+});
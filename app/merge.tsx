@@ -0,0 +1,197 @@
+import { useSQLiteContext } from '@/database/db';
+import { getAllDebtors, getDebtorById } from '@/database/debtorService';
+import { findPossibleDuplicates, mergeDebtors } from '@/database/mergeService';
+import { Debtor, DuplicateMatch } from '@/types/debtor';
+import { formatMoney } from '@/utils/money';
+import { formatPhone, phoneQueryDigits, phoneSearchForms } from '@/utils/phone';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const matchReason = (match: DuplicateMatch) => {
+  if (match.samePhone && match.similarName) return 'Same phone number and similar name';
+  return match.samePhone ? 'Same phone number' : 'Similar name';
+};
+
+// Pick another debtor to fold into the one given by the `debtorId` param.
+// Likely duplicates are suggested; the search box finds anyone else.
+export default function MergeScreen() {
+  const { debtorId } = useLocalSearchParams<{ debtorId: string }>();
+  const db = useSQLiteContext();
+  const router = useRouter();
+  const [target, setTarget] = useState<Debtor | null>(null);
+  const [candidates, setCandidates] = useState<Debtor[]>([]);
+  const [suggestions, setSuggestions] = useState<DuplicateMatch[]>([]);
+  const [query, setQuery] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const load = useCallback(async () => {
+    const debtor = await getDebtorById(db, Number(debtorId));
+    setTarget(debtor);
+    if (!debtor) return;
+    // Balances of debtors and creditors mean opposite things, so only the same
+    // kind can be merged
+    const sameKind = (other: Debtor) => other.id !== debtor.id && other.kind === debtor.kind;
+    setCandidates((await getAllDebtors(db)).filter(sameKind));
+    const matches = await findPossibleDuplicates(db, debtor.name, debtor.phoneNumbers, debtor.id);
+    setSuggestions(matches.filter((match) => sameKind(match.debtor)));
+  }, [db, debtorId]);
+
+  useEffect(() => {
+    load().catch((e) => console.warn('[Merge] load failed:', e));
+  }, [load]);
+
+  const results = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return suggestions;
+    const digits = phoneQueryDigits(q);
+    const matchesPhone = (phone: string) =>
+      digits !== null && phoneSearchForms(phone).some((form) => form.includes(digits));
+    return candidates
+      .filter((debtor) => debtor.name.toLowerCase().includes(q) || debtor.phoneNumbers.some(matchesPhone))
+      .map((debtor) => suggestions.find((match) => match.debtor.id === debtor.id) ?? { debtor, samePhone: false, similarName: false });
+  }, [query, candidates, suggestions]);
+
+  const handleMerge = (source: Debtor) => {
+    if (!target) return;
+    Alert.alert(
+      'Merge Debtors',
+      `Move all of ${source.name}'s transactions and phone numbers into ${target.name}? ` +
+        `${source.name} goes to the trash and the balances are combined. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setMerging(true);
+            try {
+              await mergeDebtors(db, target.id, source.id);
+              Alert.alert('Merged', `${source.name} was merged into ${target.name}`);
+              router.back();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message ?? 'Failed to merge debtors');
+            } finally {
+              setMerging(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCandidate = ({ item }: { item: DuplicateMatch }) => (
+    <TouchableOpacity style={styles.card} onPress={() => handleMerge(item.debtor)} disabled={merging}>
+      <View style={styles.cardInfo}>
+        <Text style={styles.name}>{item.debtor.name}</Text>
+        <Text style={styles.detail}>{item.debtor.phoneNumbers.map(formatPhone).join(', ')}</Text>
+        {(item.samePhone || item.similarName) && <Text style={styles.reason}>{matchReason(item)}</Text>}
+      </View>
+      <Text style={styles.balance}>{formatMoney(item.debtor.balance)}</Text>
+    </TouchableOpacity>
+  );
+
+  if (!target) return <View style={styles.container} />;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={results}
+        keyExtractor={(item) => String(item.debtor.id)}
+        renderItem={renderCandidate}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          <>
+            <Text style={styles.hintText}>
+              Choose who to merge into {target.name}. Their transactions, phone numbers and missing profile details
+              move over.
+            </Text>
+            <TextInput
+              style={styles.searchInput}
+              placeholder="Search by name or phone"
+              placeholderTextColor="#9ba1a6"
+              value={query}
+              onChangeText={setQuery}
+            />
+            {!query.trim() && suggestions.length > 0 && <Text style={styles.sectionTitle}>Possible duplicates</Text>}
+          </>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>
+            {query.trim() ? 'No matching debtors.' : 'No likely duplicates found. Search to pick someone else.'}
+          </Text>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  hintText: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  searchInput: {
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 12,
+    color: '#fff',
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    gap: 12,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  name: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detail: {
+    color: '#d1d5db',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  reason: {
+    color: '#fbbf24',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  balance: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
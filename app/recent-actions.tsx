@@ -0,0 +1,160 @@
+import { useSQLiteContext } from '@/database/db';
+import { getRecentActions, undoAction, UNDO_LIMIT } from '@/database/undoService';
+import { RecentAction } from '@/types/audit';
+import { AUDIT_ICONS, auditDetailLines, describeAuditEntry, formatAuditTimestamp } from '@/utils/auditText';
+import { useFocusEffect } from 'expo-router';
+import { useCallback, useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// The latest changes across all debtors, each with an undo button while the
+// data still matches what the change left behind
+export default function RecentActionsScreen() {
+  const db = useSQLiteContext();
+  const [actions, setActions] = useState<RecentAction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setActions(await getRecentActions(db));
+    } finally {
+      setLoading(false);
+    }
+  }, [db]);
+
+  useFocusEffect(
+    useCallback(() => {
+      load().catch((e) => console.warn('[RecentActions] load failed:', e));
+    }, [load])
+  );
+
+  const handleUndo = (action: RecentAction) => {
+    const subject = action.debtorName ? ` for ${action.debtorName}` : '';
+    Alert.alert('Undo', `Undo "${describeAuditEntry(action.entry)}"${subject}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Undo',
+        onPress: async () => {
+          try {
+            await undoAction(db, action.entry.id);
+            await load();
+          } catch (error: any) {
+            Alert.alert('Undo Failed', error?.message ?? 'Failed to undo');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderAction = ({ item }: { item: RecentAction }) => {
+    const status = item.undone ? 'Undone' : 'Changed since';
+    return (
+      <View style={[styles.card, item.undone && styles.cardUndone]}>
+        <Text style={styles.icon}>{AUDIT_ICONS[item.entry.operation]}</Text>
+        <View style={styles.cardInfo}>
+          <Text style={styles.action}>{describeAuditEntry(item.entry)}</Text>
+          {item.debtorName && <Text style={styles.debtorName}>{item.debtorName}</Text>}
+          {auditDetailLines(item.entry).map((line) => (
+            <Text key={line} style={styles.detail}>
+              {line}
+            </Text>
+          ))}
+          <Text style={styles.timestamp}>{formatAuditTimestamp(item.entry.createdAt)}</Text>
+        </View>
+        {item.canUndo ? (
+          <TouchableOpacity style={styles.undoButton} onPress={() => handleUndo(item)}>
+            <Text style={styles.undoText}>Undo</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.statusText}>{status}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={actions}
+        keyExtractor={(item) => String(item.entry.id)}
+        renderItem={renderAction}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={<Text style={styles.hintText}>The last {UNDO_LIMIT} changes can be undone.</Text>}
+        ListEmptyComponent={loading ? null : <Text style={styles.emptyText}>Nothing has been changed yet.</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  hintText: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    gap: 12,
+  },
+  cardUndone: {
+    opacity: 0.5,
+  },
+  icon: {
+    fontSize: 20,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  action: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  debtorName: {
+    color: '#3b82f6',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  detail: {
+    color: '#d1d5db',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  timestamp: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginTop: 6,
+  },
+  undoButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  undoText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  statusText: {
+    color: '#9ba1a6',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,225 @@
+import { useSQLiteContext } from '@/database/db';
+import {
+  getTrashedDebtors,
+  getTrashRetentionDays,
+  purgeDebtor,
+  restoreDebtor,
+  setTrashRetentionDays,
+} from '@/database/trashService';
+import { Debtor } from '@/types/debtor';
+import { formatMoney } from '@/utils/money';
+import { useCallback, useEffect, useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const RETENTION_CHOICES: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// deleted_at is stored by SQLite as UTC "YYYY-MM-DD HH:MM:SS"
+const parseDeletedAt = (value: string) => new Date(`${value.replace(' ', 'T')}Z`);
+
+// Debtors moved to the trash, with their phones and transactions, until they
+// are restored or purged
+export default function TrashScreen() {
+  const db = useSQLiteContext();
+  const [debtors, setDebtors] = useState<Debtor[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  const load = useCallback(async () => {
+    setDebtors(await getTrashedDebtors(db));
+    setRetentionDays(await getTrashRetentionDays(db));
+  }, [db]);
+
+  useEffect(() => {
+    load().catch((e) => console.warn('[Trash] load failed:', e));
+  }, [load]);
+
+  const handleRetention = async (days: number) => {
+    try {
+      await setTrashRetentionDays(db, days);
+      setRetentionDays(days);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to save retention');
+    }
+  };
+
+  const handleRestore = async (debtor: Debtor) => {
+    try {
+      await restoreDebtor(db, debtor.id);
+      await load();
+      Alert.alert('Restored', `${debtor.name} is back in your debtors`);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message ?? 'Failed to restore debtor');
+    }
+  };
+
+  const handlePurge = (debtor: Debtor) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete "${debtor.name}" with all their phone numbers and transactions? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeDebtor(db, debtor.id);
+              await load();
+            } catch (error: any) {
+              Alert.alert('Error', error?.message ?? 'Failed to delete debtor');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const describeDeletion = (deletedAt: string) => {
+    const deleted = parseDeletedAt(deletedAt);
+    const text = `Deleted ${deleted.toLocaleDateString()}`;
+    if (!retentionDays) return text;
+    const daysLeft = Math.max(0, Math.ceil((deleted.getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    return `${text} • purged in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+  };
+
+  const renderDebtor = ({ item }: { item: Debtor }) => (
+    <View style={styles.card}>
+      <View style={styles.cardInfo}>
+        <Text style={styles.name}>{item.name}</Text>
+        <Text style={styles.meta}>
+          {formatMoney(item.balance)}
+          {item.kind === 'CREDITOR' ? ' you owe' : ' owed to you'}
+        </Text>
+        {item.deletedAt && <Text style={styles.meta}>{describeDeletion(item.deletedAt)}</Text>}
+      </View>
+      <View style={styles.cardActions}>
+        <TouchableOpacity style={[styles.actionButton, styles.restoreButton]} onPress={() => handleRestore(item)}>
+          <Text style={styles.actionText}>Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.actionButton, styles.purgeButton]} onPress={() => handlePurge(item)}>
+          <Text style={styles.actionText}>Delete Forever</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={debtors}
+        keyExtractor={(item) => String(item.id)}
+        renderItem={renderDebtor}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          <View style={styles.retention}>
+            <Text style={styles.label}>Delete Trashed Debtors After</Text>
+            <View style={styles.choiceRow}>
+              {RETENTION_CHOICES.map((choice) => (
+                <TouchableOpacity
+                  key={choice.days}
+                  style={[styles.choiceButton, retentionDays === choice.days && styles.choiceButtonActive]}
+                  onPress={() => handleRetention(choice.days)}
+                >
+                  <Text style={styles.choiceText}>{choice.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty.</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#25292e',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  retention: {
+    marginBottom: 12,
+  },
+  label: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    alignItems: 'center',
+  },
+  choiceButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  choiceText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 10,
+  },
+  cardInfo: {
+    marginBottom: 10,
+  },
+  name: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  meta: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  restoreButton: {
+    backgroundColor: '#10b981',
+  },
+  purgeButton: {
+    backgroundColor: '#ef4444',
+  },
+  actionText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,305 @@
+import { TransactionType } from '@/types/transaction';
+import { CURRENCY_PREFIX, formatAmount, formatMoney, MinorUnits, parseMoney } from '@/utils/money';
+import React, { useEffect, useState } from 'react';
+import { Alert, Animated, Easing, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+export type BalanceChangeType = Extract<TransactionType, 'WAIVER' | 'WRITE_OFF' | 'ADJUSTMENT'>;
+
+interface AddAdjustmentModalProps {
+  visible: boolean;
+  // Current balance, offered as the amount to write off
+  balance: MinorUnits;
+  onClose: () => void;
+  // ADJUSTMENT amounts are signed; WAIVER and WRITE_OFF amounts are positive
+  onAdd: (type: BalanceChangeType, amount: MinorUnits, date: string, time: string, note: string) => void;
+}
+
+const TYPE_LABELS: Record<BalanceChangeType, string> = {
+  WAIVER: 'Waive',
+  WRITE_OFF: 'Write Off',
+  ADJUSTMENT: 'Adjust',
+};
+
+const TYPE_HINTS: Record<BalanceChangeType, string> = {
+  WAIVER: 'Forgive part of the debt. Lowers the balance without counting as money received.',
+  WRITE_OFF: 'Give up on an amount that will not be repaid. Reported separately from payments.',
+  ADJUSTMENT: 'Correct the balance up or down, e.g. after a counting mistake.',
+};
+
+// Balance changes that are not cash: waivers, write-offs and manual adjustments
+export default function AddAdjustmentModal({ visible, balance, onClose, onAdd }: Readonly<AddAdjustmentModalProps>) {
+  const [showModal, setShowModal] = useState(visible);
+  const fadeAnim = useState(new Animated.Value(0))[0];
+  const scaleAnim = useState(new Animated.Value(0.9))[0];
+
+  const getCurrentDate = () => {
+    const now = new Date();
+    const year = now.getFullYear();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  };
+
+  const getCurrentTime = () => {
+    const now = new Date();
+    const hours = String(now.getHours()).padStart(2, '0');
+    const minutes = String(now.getMinutes()).padStart(2, '0');
+    return `${hours}:${minutes}`;
+  };
+
+  const [type, setType] = useState<BalanceChangeType>('WAIVER');
+  const [raise, setRaise] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(getCurrentDate());
+  const [time, setTime] = useState(getCurrentTime());
+  const [note, setNote] = useState('');
+
+  // Animation effect
+  useEffect(() => {
+    if (visible) {
+      setShowModal(true);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 250,
+          useNativeDriver: true,
+          easing: Easing.out(Easing.ease),
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          friction: 8,
+          tension: 40,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 200,
+          useNativeDriver: true,
+          easing: Easing.in(Easing.ease),
+        }),
+        Animated.timing(scaleAnim, {
+          toValue: 0.9,
+          duration: 200,
+          useNativeDriver: true,
+        }),
+      ]).start(() => setShowModal(false));
+    }
+  }, [visible, fadeAnim, scaleAnim]);
+
+  // Update date and time when modal becomes visible
+  useEffect(() => {
+    if (visible) {
+      setDate(getCurrentDate());
+      setTime(getCurrentTime());
+    }
+  }, [visible]);
+
+  const handleAdd = () => {
+    if (!amount || !date || !time) return;
+    const value = parseMoney(amount);
+    if (value === null || value <= 0) {
+      Alert.alert('Invalid Amount', 'Enter an amount greater than zero.');
+      return;
+    }
+    if (type !== 'ADJUSTMENT' && value > balance) {
+      Alert.alert('Invalid Amount', `Enter up to the balance of ${formatMoney(Math.max(0, balance))}.`);
+      return;
+    }
+
+    onAdd(type, type === 'ADJUSTMENT' && !raise ? -value : value, date, time, note);
+    setType('WAIVER');
+    setRaise(false);
+    setAmount('');
+    setDate(getCurrentDate());
+    setTime(getCurrentTime());
+    setNote('');
+    onClose();
+  };
+
+  return (
+    <Modal visible={showModal} transparent>
+      <View style={styles.overlay}>
+        <Animated.View style={[styles.container, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>Adjust Balance</Text>
+            <View style={styles.choiceRow}>
+              {(Object.keys(TYPE_LABELS) as BalanceChangeType[]).map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.choiceButton, type === key && styles.choiceButtonActive]}
+                  onPress={() => setType(key)}
+                >
+                  <Text style={styles.choiceText}>{TYPE_LABELS[key]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.hintText}>{TYPE_HINTS[type]}</Text>
+            {type === 'ADJUSTMENT' && (
+              <View style={styles.choiceRow}>
+                <TouchableOpacity
+                  style={[styles.choiceButton, !raise && styles.choiceButtonActive]}
+                  onPress={() => setRaise(false)}
+                >
+                  <Text style={styles.choiceText}>Lower balance</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.choiceButton, raise && styles.choiceButtonActive]}
+                  onPress={() => setRaise(true)}
+                >
+                  <Text style={styles.choiceText}>Raise balance</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TextInput
+              style={styles.input}
+              placeholder={`Amount ${CURRENCY_PREFIX}`}
+              placeholderTextColor="#999"
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+            {type === 'WRITE_OFF' && balance > 0 && (
+              <TouchableOpacity onPress={() => setAmount(formatAmount(balance))}>
+                <Text style={styles.linkText}>Write off the whole balance ({formatMoney(balance)})</Text>
+              </TouchableOpacity>
+            )}
+            <TextInput
+              style={styles.input}
+              placeholder="Date (YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={date}
+              onChangeText={setDate}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Time (HH:MM)"
+              placeholderTextColor="#999"
+              value={time}
+              onChangeText={setTime}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Reason (optional)"
+              placeholderTextColor="#999"
+              value={note}
+              onChangeText={setNote}
+            />
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.addButton]} onPress={handleAdd}>
+                <Text style={styles.addButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#1a1d21',
+    padding: 24,
+    borderRadius: 16,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    backgroundColor: '#25292e',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 14,
+    fontSize: 16,
+    color: '#fff',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 14,
+  },
+  choiceButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  choiceButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  choiceText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#3b82f6',
+    fontSize: 14,
+    marginTop: -6,
+    marginBottom: 14,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#9ba1a6',
+    marginBottom: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#333',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  addButton: {
+    backgroundColor: '#3b82f6',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
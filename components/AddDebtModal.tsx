@@ -1,13 +1,31 @@
+import { buildInstallmentSchedule, defaultInstallmentAmount } from '@/database/installmentService';
+import { InstallmentFrequency, InstallmentPlanInput } from '@/types/installment';
+import { CURRENCY_PREFIX, formatAmount, MinorUnits, parseMoney } from '@/utils/money';
 import React, { useEffect, useState } from 'react';
-import { Animated, Easing, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Alert, Animated, Easing, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 interface AddDebtModalProps {
   visible: boolean;
+  // Heading and submit label, e.g. "Borrowed" for a creditor
+  title?: string;
   onClose: () => void;
-  onAdd: (amount: number, date: string, time: string, note: string) => void;
+  onAdd: (
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string,
+    dueDate: string | null,
+    installmentPlan: InstallmentPlanInput | null
+  ) => void;
 }
 
-export default function AddDebtModal({ visible, onClose, onAdd }: Readonly<AddDebtModalProps>) {
+const FREQUENCIES: { value: InstallmentFrequency; label: string }[] = [
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'BIWEEKLY', label: 'Every 2 weeks' },
+  { value: 'MONTHLY', label: 'Monthly' },
+];
+
+export default function AddDebtModal({ visible, title = 'Add Debt', onClose, onAdd }: Readonly<AddDebtModalProps>) {
   const [showModal, setShowModal] = useState(visible);
   const fadeAnim = useState(new Animated.Value(0))[0];
   const scaleAnim = useState(new Animated.Value(0.9))[0];
@@ -31,6 +49,20 @@ export default function AddDebtModal({ visible, onClose, onAdd }: Readonly<AddDe
   const [date, setDate] = useState(getCurrentDate());
   const [time, setTime] = useState(getCurrentTime());
   const [note, setNote] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [useInstallments, setUseInstallments] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('');
+  const [installmentAmount, setInstallmentAmount] = useState('');
+  const [frequency, setFrequency] = useState<InstallmentFrequency>('MONTHLY');
+  const [firstDueDate, setFirstDueDate] = useState('');
+
+  // Even split shown as the default installment amount
+  const parsedAmount = parseMoney(amount);
+  const parsedCount = Number.parseInt(installmentCount, 10);
+  const suggestedInstallment =
+    parsedAmount !== null && parsedAmount > 0 && parsedCount >= 2
+      ? defaultInstallmentAmount(parsedAmount, parsedCount)
+      : null;
 
   // Animation effect
   useEffect(() => {
@@ -77,11 +109,53 @@ export default function AddDebtModal({ visible, onClose, onAdd }: Readonly<AddDe
 
   const handleAdd = () => {
     if (!amount || !date || !time) return;
-    onAdd(Number(amount), date, time, note);
+    const value = parseMoney(amount);
+    if (value === null || value <= 0) {
+      Alert.alert('Invalid Amount', 'Enter an amount greater than zero.');
+      return;
+    }
+    const due = useInstallments ? '' : dueDate.trim();
+    if (due && !/^\d{4}-\d{2}-\d{2}$/.test(due)) {
+      Alert.alert('Invalid Due Date', 'Use the format YYYY-MM-DD.');
+      return;
+    }
+    if (due && due < date) {
+      Alert.alert('Invalid Due Date', 'The due date cannot be before the debt date.');
+      return;
+    }
+
+    let installmentPlan: InstallmentPlanInput | null = null;
+    if (useInstallments) {
+      const count = Number.parseInt(installmentCount, 10);
+      const each = installmentAmount.trim() ? parseMoney(installmentAmount) : suggestedInstallment;
+      if (each === null) {
+        Alert.alert('Invalid Installments', 'Enter a valid installment amount.');
+        return;
+      }
+      if (firstDueDate.trim() < date) {
+        Alert.alert('Invalid Installments', 'The first installment cannot be due before the debt date.');
+        return;
+      }
+      installmentPlan = { count, amount: each, frequency, startDate: firstDueDate.trim() };
+      try {
+        buildInstallmentSchedule(value, installmentPlan);
+      } catch (error: any) {
+        Alert.alert('Invalid Installments', error?.message ?? 'Check the installment plan.');
+        return;
+      }
+    }
+
+    onAdd(value, date, time, note, due || null, installmentPlan);
     setAmount('');
     setDate(getCurrentDate());
     setTime(getCurrentTime());
     setNote('');
+    setDueDate('');
+    setUseInstallments(false);
+    setInstallmentCount('');
+    setInstallmentAmount('');
+    setFrequency('MONTHLY');
+    setFirstDueDate('');
     onClose();
   };
 
@@ -89,45 +163,102 @@ export default function AddDebtModal({ visible, onClose, onAdd }: Readonly<AddDe
     <Modal visible={showModal} transparent>
       <View style={styles.overlay}>
         <Animated.View style={[styles.container, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}>
-          <Text style={styles.title}>Add Debt</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="Amount Rs."
-            placeholderTextColor="#999"
-            keyboardType="numeric"
-            value={amount}
-            onChangeText={setAmount}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Date (YYYY-MM-DD)"
-            placeholderTextColor="#999"
-            value={date}
-            onChangeText={setDate}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Time (HH:MM)"
-            placeholderTextColor="#999"
-            value={time}
-            onChangeText={setTime}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Note (optional)"
-            placeholderTextColor="#999"
-            value={note}
-            onChangeText={setNote}
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{title}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={`Amount ${CURRENCY_PREFIX}`}
+              placeholderTextColor="#999"
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Date (YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={date}
+              onChangeText={setDate}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Time (HH:MM)"
+              placeholderTextColor="#999"
+              value={time}
+              onChangeText={setTime}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Note (optional)"
+              placeholderTextColor="#999"
+              value={note}
+              onChangeText={setNote}
             
-          />
-          <View style={styles.buttonRow}>
-            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
-              <Text style={styles.cancelButtonText}>Cancel</Text>
+            />
+            {!useInstallments && (
+              <TextInput
+                style={styles.input}
+                placeholder="Due Date (optional, YYYY-MM-DD)"
+                placeholderTextColor="#999"
+                value={dueDate}
+                onChangeText={setDueDate}
+              />
+            )}
+            <TouchableOpacity style={styles.toggleRow} onPress={() => setUseInstallments(!useInstallments)}>
+              <Text style={styles.toggleBox}>{useInstallments ? '☑' : '☐'}</Text>
+              <Text style={styles.toggleLabel}>Repay in installments</Text>
             </TouchableOpacity>
-            <TouchableOpacity style={[styles.button, styles.addButton]} onPress={handleAdd}>
-              <Text style={styles.addButtonText}>Add Debt</Text>
-            </TouchableOpacity>
-          </View>
+            {useInstallments && (
+              <>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Number of installments"
+                  placeholderTextColor="#999"
+                  keyboardType="number-pad"
+                  value={installmentCount}
+                  onChangeText={setInstallmentCount}
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder={
+                    suggestedInstallment === null
+                      ? `Amount each ${CURRENCY_PREFIX}`
+                      : `Amount each ${CURRENCY_PREFIX} (default ${formatAmount(suggestedInstallment)})`
+                  }
+                  placeholderTextColor="#999"
+                  keyboardType="decimal-pad"
+                  value={installmentAmount}
+                  onChangeText={setInstallmentAmount}
+                />
+                <View style={styles.frequencyRow}>
+                  {FREQUENCIES.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.frequencyButton, frequency === option.value && styles.frequencyButtonActive]}
+                      onPress={() => setFrequency(option.value)}
+                    >
+                      <Text style={styles.frequencyButtonText}>{option.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="First due date (YYYY-MM-DD)"
+                  placeholderTextColor="#999"
+                  value={firstDueDate}
+                  onChangeText={setFirstDueDate}
+                />
+              </>
+            )}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.addButton]} onPress={handleAdd}>
+                <Text style={styles.addButtonText}>{title}</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
         </Animated.View>
       </View>
     </Modal>
@@ -147,6 +278,7 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     width: '90%',
     maxWidth: 400,
+    maxHeight: '90%',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
@@ -170,6 +302,43 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#fff',
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 14,
+    gap: 8,
+  },
+  toggleBox: {
+    fontSize: 20,
+    color: '#fff',
+  },
+  toggleLabel: {
+    fontSize: 16,
+    color: '#fff',
+  },
+  frequencyRow: {
+    flexDirection: 'row',
+    marginBottom: 14,
+    gap: 8,
+  },
+  frequencyButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  frequencyButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  frequencyButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   buttonRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
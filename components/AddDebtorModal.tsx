@@ -1,5 +1,23 @@
+import CountryPicker from '@/components/CountryPicker';
+import ProfileFields from '@/components/ProfileFields';
+import { getCustomFields, validateDebtorProfile } from '@/database/customFieldService';
 import { useSQLiteContext } from '@/database/db';
-import { addDebtor } from '@/database/debtorService';
+import { addDebtor, EMPTY_PROFILE } from '@/database/debtorService';
+import { findPossibleDuplicates } from '@/database/mergeService';
+import { getDefaultCountry, setDefaultCountry } from '@/database/phoneService';
+import { CustomField } from '@/types/customField';
+import { CounterpartyKind, DebtorProfile, DuplicateMatch } from '@/types/debtor';
+import { PhoneNumber } from '@/types/phone';
+import { MinorUnits, parseMoney } from '@/utils/money';
+import {
+  Country,
+  DEFAULT_COUNTRY_CODE,
+  findCountry,
+  nextPhoneLabel,
+  normalizePhone,
+  PHONE_LABELS,
+  phoneFormatHint,
+} from '@/utils/phone';
 import React, { useState } from 'react';
 import {
   Alert,
@@ -16,6 +34,23 @@ import {
   View,
 } from 'react-native';
 
+// How many possible duplicates the warning lists by name
+const DUPLICATES_SHOWN = 3;
+
+const describeDuplicate = ({ debtor, samePhone }: DuplicateMatch) =>
+  `• ${debtor.name}${samePhone ? ' (same phone number)' : ''}`;
+
+// The first number added is the primary one until another is starred
+const NEW_PHONE: PhoneNumber = { number: '', label: 'MOBILE', isPrimary: false };
+
+const getCurrentDate = () => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
 interface AddDebtorModalProps {
   visible: boolean;
   onClose: () => void;
@@ -62,26 +97,70 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
     }
   }, [visible, fadeAnim, scaleAnim]);
   const db = useSQLiteContext();
+  const [kind, setKind] = useState<CounterpartyKind>('DEBTOR');
   const [name, setName] = useState('');
-  const [phoneNumbers, setPhoneNumbers] = useState<string[]>(['']);
+  const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([NEW_PHONE]);
+  const [country, setCountry] = useState<Country>(findCountry(DEFAULT_COUNTRY_CODE));
+  const [showCountryPicker, setShowCountryPicker] = useState(false);
   const [balance, setBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState(getCurrentDate());
+  const [profile, setProfile] = useState<DebtorProfile>(EMPTY_PROFILE);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [showDetails, setShowDetails] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  // Custom fields may have changed since the form was last opened
+  React.useEffect(() => {
+    if (visible) {
+      getCustomFields(db)
+        .then(setCustomFields)
+        .catch((e) => console.warn('[AddDebtorModal] load custom fields failed:', e));
+      getDefaultCountry(db)
+        .then(setCountry)
+        .catch((e) => console.warn('[AddDebtorModal] load default country failed:', e));
+    }
+  }, [visible, db]);
+
   const handleAddPhoneNumber = () => {
-    setPhoneNumbers([...phoneNumbers, '']);
+    setPhoneNumbers([...phoneNumbers, NEW_PHONE]);
   };
 
   const handleRemovePhoneNumber = (index: number) => {
     const newPhones = phoneNumbers.filter((_, i) => i !== index);
-    setPhoneNumbers(newPhones.length > 0 ? newPhones : ['']);
+    setPhoneNumbers(newPhones.length > 0 ? newPhones : [NEW_PHONE]);
   };
 
   const handlePhoneNumberChange = (text: string, index: number) => {
     const newPhones = [...phoneNumbers];
-    newPhones[index] = text;
+    newPhones[index] = { ...newPhones[index], number: text };
+    setPhoneNumbers(newPhones);
+  };
+
+  const handleCyclePhoneLabel = (index: number) => {
+    const newPhones = [...phoneNumbers];
+    newPhones[index] = { ...newPhones[index], label: nextPhoneLabel(newPhones[index].label) };
     setPhoneNumbers(newPhones);
   };
 
+  const handleMakePrimary = (index: number) => {
+    setPhoneNumbers(phoneNumbers.map((phone, i) => ({ ...phone, isPrimary: i === index })));
+  };
+
+  const handleSelectCountry = async (selected: Country) => {
+    setCountry(selected);
+    try {
+      await setDefaultCountry(db, selected.code);
+    } catch (error) {
+      console.warn('[AddDebtorModal] save default country failed:', error);
+    }
+  };
+
+  // The first starred number is primary, or else the first number
+  const primaryIndex = Math.max(
+    phoneNumbers.findIndex((phone) => phone.isPrimary),
+    0
+  );
+
   const handleSubmit = async () => {
     // Validation
     if (!name.trim()) {
@@ -89,24 +168,73 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
       return;
     }
 
-    const validPhones = phoneNumbers.filter(phone => phone.trim() !== '');
-    if (validPhones.length === 0) {
+    const filledPhones = phoneNumbers.filter(phone => phone.number.trim() !== '');
+    if (filledPhones.length === 0) {
       Alert.alert('Error', 'Please enter at least one phone number');
       return;
     }
+    const invalidPhone = filledPhones.find((phone) => !normalizePhone(phone.number, country));
+    if (invalidPhone) {
+      Alert.alert('Invalid Phone Number', `${invalidPhone.number.trim()}: ${phoneFormatHint(country)}`);
+      return;
+    }
+    const validPhones = filledPhones.map((phone) => ({
+      ...phone,
+      number: normalizePhone(phone.number, country) as string,
+      isPrimary: phone === phoneNumbers[primaryIndex],
+    }));
 
-    const balanceNum = parseFloat(balance) || 0;
+    const balanceNum = balance.trim() === '' ? 0 : parseMoney(balance);
+    if (balanceNum === null) {
+      Alert.alert('Error', 'Please enter a valid opening balance');
+      return;
+    }
+    if (balanceNum !== 0 && !/^\d{4}-\d{2}-\d{2}$/.test(openingDate.trim())) {
+      Alert.alert('Error', 'Please enter the opening balance date as YYYY-MM-DD');
+      return;
+    }
+    const profileProblem = validateDebtorProfile(profile, customFields);
+    if (profileProblem) {
+      Alert.alert('Error', profileProblem);
+      return;
+    }
+
+    const duplicates = await findPossibleDuplicates(
+      db,
+      name.trim(),
+      validPhones.map((phone) => phone.number)
+    );
+    if (duplicates.length > 0) {
+      const more = duplicates.length - DUPLICATES_SHOWN;
+      const list = duplicates.slice(0, DUPLICATES_SHOWN).map(describeDuplicate).join('\n');
+      Alert.alert(
+        'Possible Duplicate',
+        `This looks like someone already in your list:\n\n${list}${more > 0 ? `\n…and ${more} more` : ''}\n\nAdd anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Add Anyway', onPress: () => { void saveDebtor(validPhones, balanceNum); } },
+        ]
+      );
+      return;
+    }
+    await saveDebtor(validPhones, balanceNum);
+  };
 
+  const saveDebtor = async (validPhones: PhoneNumber[], balanceNum: MinorUnits) => {
     try {
       setLoading(true);
-      await addDebtor(db, name.trim(), validPhones, balanceNum);
+      await addDebtor(db, name.trim(), validPhones, balanceNum, openingDate.trim(), kind, profile);
       
       // Reset form
+      setKind('DEBTOR');
       setName('');
-      setPhoneNumbers(['']);
+      setPhoneNumbers([NEW_PHONE]);
       setBalance('');
+      setOpeningDate(getCurrentDate());
+      setProfile(EMPTY_PROFILE);
+      setShowDetails(false);
       
-      Alert.alert('Success', 'Debtor added successfully');
+      Alert.alert('Success', `${kind === 'CREDITOR' ? 'Creditor' : 'Debtor'} added successfully`);
       onSuccess();
       onClose();
     } catch (error) {
@@ -118,9 +246,13 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
   };
 
   const handleCancel = () => {
+    setKind('DEBTOR');
     setName('');
-    setPhoneNumbers(['']);
+    setPhoneNumbers([NEW_PHONE]);
     setBalance('');
+    setOpeningDate(getCurrentDate());
+    setProfile(EMPTY_PROFILE);
+    setShowDetails(false);
     onClose();
   };
 
@@ -136,19 +268,39 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
       >
         <Animated.View style={[styles.modalContent, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}> 
           <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Add New Debtor</Text>
+            <Text style={styles.modalTitle}>{kind === 'CREDITOR' ? 'Add New Creditor' : 'Add New Debtor'}</Text>
             <TouchableOpacity onPress={handleCancel} style={styles.closeButton}>
               <Text style={styles.closeButtonText}>✕</Text>
             </TouchableOpacity>
           </View>
 
           <ScrollView style={styles.formContainer}>
+            {/* Direction */}
+            <View style={styles.inputGroup}>
+              <View style={styles.kindRow}>
+                <TouchableOpacity
+                  style={[styles.kindButton, kind === 'DEBTOR' && styles.kindButtonActive]}
+                  onPress={() => setKind('DEBTOR')}
+                  disabled={loading}
+                >
+                  <Text style={styles.kindButtonText}>Owes me</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.kindButton, kind === 'CREDITOR' && styles.kindButtonActive]}
+                  onPress={() => setKind('CREDITOR')}
+                  disabled={loading}
+                >
+                  <Text style={styles.kindButtonText}>I owe</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {/* Name Input */}
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Name *</Text>
               <TextInput
                 style={styles.input}
-                placeholder="Enter debtor name"
+                placeholder={kind === 'CREDITOR' ? 'Enter creditor name' : 'Enter debtor name'}
                 placeholderTextColor="#666"
                 value={name}
                 onChangeText={setName}
@@ -174,11 +326,27 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
                     style={[styles.input, styles.phoneInput]}
                     placeholder={`Phone ${index + 1}`}
                     placeholderTextColor="#666"
-                    value={phone}
+                    value={phone.number}
                     onChangeText={(text) => handlePhoneNumberChange(text, index)}
                     keyboardType="phone-pad"
                     editable={!loading}
                   />
+                  <TouchableOpacity
+                    onPress={() => handleCyclePhoneLabel(index)}
+                    style={styles.labelButton}
+                    disabled={loading}
+                  >
+                    <Text style={styles.labelButtonText}>{PHONE_LABELS[phone.label]}</Text>
+                  </TouchableOpacity>
+                  {phoneNumbers.length > 1 && (
+                    <TouchableOpacity
+                      onPress={() => handleMakePrimary(index)}
+                      style={styles.primaryButton}
+                      disabled={loading}
+                    >
+                      <Text style={index === primaryIndex ? styles.primaryStarActive : styles.primaryStar}>★</Text>
+                    </TouchableOpacity>
+                  )}
                   {phoneNumbers.length > 1 && (
                     <TouchableOpacity
                       onPress={() => handleRemovePhoneNumber(index)}
@@ -190,11 +358,17 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
                   )}
                 </View>
               ))}
+              <TouchableOpacity onPress={() => setShowCountryPicker(true)} disabled={loading}>
+                <Text style={styles.countryHint}>
+                  Numbers without a country code: {country.name} (+{country.dialCode}) ·{' '}
+                  <Text style={styles.countryChange}>Change</Text>
+                </Text>
+              </TouchableOpacity>
             </View>
 
             {/* Balance Input */}
             <View style={styles.inputGroup}>
-              <Text style={styles.label}>Initial Balance</Text>
+              <Text style={styles.label}>Opening Balance</Text>
               <TextInput
                 style={styles.input}
                 placeholder="0.00"
@@ -205,6 +379,33 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
                 editable={!loading}
               />
             </View>
+
+            {/* Opening Balance Date */}
+            {balance.trim() !== '' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Opening Balance Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor="#666"
+                  value={openingDate}
+                  onChangeText={setOpeningDate}
+                  editable={!loading}
+                />
+              </View>
+            )}
+
+            {/* Profile */}
+            <TouchableOpacity
+              style={styles.detailsToggle}
+              onPress={() => setShowDetails(!showDetails)}
+              disabled={loading}
+            >
+              <Text style={styles.detailsToggleText}>{showDetails ? '− Fewer Details' : '+ More Details'}</Text>
+            </TouchableOpacity>
+            {showDetails && (
+              <ProfileFields profile={profile} fields={customFields} onChange={setProfile} editable={!loading} />
+            )}
           </ScrollView>
 
           {/* Action Buttons */}
@@ -222,12 +423,18 @@ export default function AddDebtorModal({ visible, onClose, onSuccess }: AddDebto
               disabled={loading}
             >
               <Text style={styles.submitButtonText}>
-                {loading ? 'Adding...' : 'Add Debtor'}
+                {loading ? 'Adding...' : `Add ${kind === 'CREDITOR' ? 'Creditor' : 'Debtor'}`}
               </Text>
             </TouchableOpacity>
           </View>
         </Animated.View>
       </KeyboardAvoidingView>
+      <CountryPicker
+        visible={showCountryPicker}
+        selected={country}
+        onSelect={handleSelectCountry}
+        onClose={() => setShowCountryPicker(false)}
+      />
     </Modal>
   );
 }
@@ -289,6 +496,28 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginBottom: 8,
   },
+  kindRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  kindButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+  },
+  kindButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  kindButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   labelRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -324,6 +553,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  labelButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#374151',
+    marginRight: 8,
+  },
+  labelButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    marginRight: 8,
+  },
+  primaryStar: {
+    color: '#4b5563',
+    fontSize: 22,
+  },
+  primaryStarActive: {
+    color: '#fbbf24',
+    fontSize: 22,
+  },
+  countryHint: {
+    color: '#9ba1a6',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  countryChange: {
+    color: '#3b82f6',
+    fontWeight: '600',
+  },
   removeButton: {
     width: 32,
     height: 32,
@@ -337,6 +598,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  detailsToggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 20,
+  },
+  detailsToggleText: {
+    color: '#3b82f6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   buttonContainer: {
     flexDirection: 'row',
     paddingHorizontal: 20,
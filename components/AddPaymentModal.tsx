@@ -1,13 +1,25 @@
+import { DebtStatus, PaymentAllocationInput } from '@/types/allocation';
+import { CURRENCY_PREFIX, formatMoney, MinorUnits, parseMoney } from '@/utils/money';
 import React, { useEffect, useState } from 'react';
-import { Animated, Easing, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Alert, Animated, Easing, Modal, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 interface AddPaymentModalProps {
   visible: boolean;
+  // Heading and submit label, e.g. "Paid Back" for a creditor
+  title?: string;
+  // Debts with an unpaid part, oldest first, offered for manual allocation
+  openDebts: DebtStatus[];
   onClose: () => void;
-  onAdd: (amount: number, date: string, time: string, note: string) => void;
+  onAdd: (
+    amount: MinorUnits,
+    date: string,
+    time: string,
+    note: string,
+    allocations: PaymentAllocationInput[] | null
+  ) => void;
 }
 
-export default function AddPaymentModal({ visible, onClose, onAdd }: Readonly<AddPaymentModalProps>) {
+export default function AddPaymentModal({ visible, title = 'Add Payment', openDebts, onClose, onAdd }: Readonly<AddPaymentModalProps>) {
   const [showModal, setShowModal] = useState(visible);
   const fadeAnim = useState(new Animated.Value(0))[0];
   const scaleAnim = useState(new Animated.Value(0.9))[0];
@@ -31,6 +43,9 @@ export default function AddPaymentModal({ visible, onClose, onAdd }: Readonly<Ad
   const [date, setDate] = useState(getCurrentDate());
   const [time, setTime] = useState(getCurrentTime());
   const [note, setNote] = useState('');
+  const [manualAllocation, setManualAllocation] = useState(false);
+  // Amount typed for each debt, keyed by its transaction id
+  const [allocationInputs, setAllocationInputs] = useState<Record<number, string>>({});
 
   // Animation effect
   useEffect(() => {
@@ -77,11 +92,38 @@ export default function AddPaymentModal({ visible, onClose, onAdd }: Readonly<Ad
 
   const handleAdd = () => {
     if (!amount || !date || !time) return;
-    onAdd(Number(amount), date, time, note);
+    const value = parseMoney(amount);
+    if (value === null || value <= 0) {
+      Alert.alert('Invalid Amount', 'Enter an amount greater than zero.');
+      return;
+    }
+
+    let allocations: PaymentAllocationInput[] | null = null;
+    if (manualAllocation) {
+      allocations = [];
+      for (const debt of openDebts) {
+        const text = allocationInputs[debt.transactionId]?.trim();
+        if (!text) continue;
+        const applied = parseMoney(text);
+        if (applied === null || applied <= 0 || applied > debt.unpaid) {
+          Alert.alert('Invalid Allocation', `Enter up to ${formatMoney(debt.unpaid)} for the debt of ${debt.date}.`);
+          return;
+        }
+        allocations.push({ debtId: debt.transactionId, amount: applied });
+      }
+      if (allocations.reduce((sum, a) => sum + a.amount, 0) > value) {
+        Alert.alert('Invalid Allocation', 'The allocated amounts add up to more than the payment.');
+        return;
+      }
+    }
+
+    onAdd(value, date, time, note, allocations);
     setAmount('');
     setDate(getCurrentDate());
     setTime(getCurrentTime());
     setNote('');
+    setManualAllocation(false);
+    setAllocationInputs({});
     onClose();
   };
 
@@ -89,44 +131,75 @@ export default function AddPaymentModal({ visible, onClose, onAdd }: Readonly<Ad
     <Modal visible={showModal} transparent>
       <View style={styles.overlay}>
         <Animated.View style={[styles.container, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}>
-          <Text style={styles.title}>Add Payment</Text>
-          <TextInput
-            style={styles.input}
-            placeholder="Amount Rs."
-            placeholderTextColor="#999"
-            keyboardType="numeric"
-            value={amount}
-            onChangeText={setAmount}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Date (YYYY-MM-DD)"
-            placeholderTextColor="#999"
-            value={date}
-            onChangeText={setDate}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Time (HH:MM)"
-            placeholderTextColor="#999"
-            value={time}
-            onChangeText={setTime}
-          />
-          <TextInput
-            style={styles.input}
-            placeholder="Note (optional)"
-            placeholderTextColor="#999"
-            value={note}
-            onChangeText={setNote}
-          />
-          <View style={styles.buttonRow}>
-            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
-              <Text style={styles.cancelButtonText}>Cancel</Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={[styles.button, styles.addButton]} onPress={handleAdd}>
-              <Text style={styles.addButtonText}>Add Payment</Text>
-            </TouchableOpacity>
-          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{title}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={`Amount ${CURRENCY_PREFIX}`}
+              placeholderTextColor="#999"
+              keyboardType="decimal-pad"
+              value={amount}
+              onChangeText={setAmount}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Date (YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={date}
+              onChangeText={setDate}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Time (HH:MM)"
+              placeholderTextColor="#999"
+              value={time}
+              onChangeText={setTime}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Note (optional)"
+              placeholderTextColor="#999"
+              value={note}
+              onChangeText={setNote}
+            />
+            {openDebts.length > 0 && (
+              <TouchableOpacity style={styles.toggleRow} onPress={() => setManualAllocation(!manualAllocation)}>
+                <Text style={styles.toggleBox}>{manualAllocation ? '☑' : '☐'}</Text>
+                <Text style={styles.toggleLabel}>Choose which debts this settles</Text>
+              </TouchableOpacity>
+            )}
+            {manualAllocation && (
+              <>
+                <Text style={styles.hintText}>Anything not assigned here goes to the oldest debts first.</Text>
+                {openDebts.map((debt) => (
+                  <View key={debt.transactionId} style={styles.allocationRow}>
+                    <View style={styles.allocationInfo}>
+                      <Text style={styles.allocationDate}>{debt.date}</Text>
+                      <Text style={styles.allocationMeta}>
+                        {formatMoney(debt.unpaid)} unpaid{debt.note ? ` • ${debt.note}` : ''}
+                      </Text>
+                    </View>
+                    <TextInput
+                      style={[styles.input, styles.allocationInput]}
+                      placeholder="0.00"
+                      placeholderTextColor="#999"
+                      keyboardType="decimal-pad"
+                      value={allocationInputs[debt.transactionId] ?? ''}
+                      onChangeText={(text) => setAllocationInputs({ ...allocationInputs, [debt.transactionId]: text })}
+                    />
+                  </View>
+                ))}
+              </>
+            )}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.addButton]} onPress={handleAdd}>
+                <Text style={styles.addButtonText}>{title}</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
         </Animated.View>
       </View>
     </Modal>
@@ -146,6 +219,7 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     width: '90%',
     maxWidth: 400,
+    maxHeight: '90%',
     shadowColor: '#000',
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
@@ -169,6 +243,47 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#fff',
   },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 14,
+    gap: 8,
+  },
+  toggleBox: {
+    fontSize: 20,
+    color: '#fff',
+  },
+  toggleLabel: {
+    fontSize: 16,
+    color: '#fff',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#9ba1a6',
+    marginBottom: 10,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  allocationInfo: {
+    flex: 1,
+    marginBottom: 14,
+  },
+  allocationDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  allocationMeta: {
+    fontSize: 12,
+    color: '#9ba1a6',
+    marginTop: 2,
+  },
+  allocationInput: {
+    width: 110,
+  },
   buttonRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,411 @@
+import { getAnalytics, periodRange } from '@/database/analyticsService';
+import { useSQLiteContext } from '@/database/db';
+import { Analytics, AnalyticsPeriod, DateRange } from '@/types/analytics';
+import { formatMoney } from '@/utils/money';
+import { useRouter } from 'expo-router';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const PERIODS: { period: AnalyticsPeriod; label: string }[] = [
+  { period: 'MONTH', label: 'This month' },
+  { period: 'QUARTER', label: 'Quarter' },
+  { period: 'YEAR', label: 'Year' },
+  { period: 'CUSTOM', label: 'Custom' },
+];
+
+const MONTH_INITIALS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const BAR_HEIGHT = 80;
+
+interface AnalyticsSectionProps {
+  refreshKey: number; // Change to reload, e.g. when the screen regains focus
+}
+
+// Lending and collection trends for debtors on the home screen
+export default function AnalyticsSection({ refreshKey }: Readonly<AnalyticsSectionProps>) {
+  const db = useSQLiteContext();
+  const router = useRouter();
+  const [period, setPeriod] = useState<AnalyticsPeriod>('MONTH');
+  // Only a custom range is kept; the others are worked out on every load so
+  // they move with today's date
+  const [customRange, setCustomRange] = useState<DateRange>(() => periodRange('MONTH'));
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAnalytics(db, period === 'CUSTOM' ? customRange : periodRange(period))
+      .then((result) => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch((e) => console.warn('[Analytics] load failed:', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [db, period, customRange, refreshKey]);
+
+  const handlePeriod = (next: AnalyticsPeriod) => {
+    if (next === 'CUSTOM' && period !== 'CUSTOM') {
+      // Start from the range on screen
+      const current = periodRange(period);
+      setCustomRange(current);
+      setCustomFrom(current.from);
+      setCustomTo(current.to);
+    }
+    setPeriod(next);
+  };
+
+  const handleApplyCustom = () => {
+    const from = customFrom.trim();
+    const to = customTo.trim();
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      Alert.alert('Invalid Date', 'Use the format YYYY-MM-DD.');
+      return;
+    }
+    if (from > to) {
+      Alert.alert('Invalid Dates', 'The start date must not be after the end date.');
+      return;
+    }
+    setCustomRange({ from, to });
+  };
+
+  if (!analytics) {
+    return (
+      <View style={styles.section}>
+        <ActivityIndicator color="#3b82f6" />
+      </View>
+    );
+  }
+
+  const { period: figures, monthly, aging, topDebtors } = analytics;
+  const largestMonth = Math.max(1, ...monthly.flatMap((flow) => [flow.lent, flow.collected]));
+  const outstanding = aging.reduce((sum, bucket) => sum + bucket.amount, 0);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Analytics</Text>
+
+      <View style={styles.periodRow}>
+        {PERIODS.map((choice) => (
+          <TouchableOpacity
+            key={choice.period}
+            style={[styles.periodChip, period === choice.period && styles.periodChipActive]}
+            onPress={() => handlePeriod(choice.period)}
+          >
+            <Text style={[styles.periodText, period === choice.period && styles.periodTextActive]}>{choice.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {period === 'CUSTOM' && (
+        <View style={styles.customRow}>
+          <TextInput
+            style={styles.dateInput}
+            placeholder="From (YYYY-MM-DD)"
+            placeholderTextColor="#9ba1a6"
+            value={customFrom}
+            onChangeText={setCustomFrom}
+          />
+          <TextInput
+            style={styles.dateInput}
+            placeholder="To (YYYY-MM-DD)"
+            placeholderTextColor="#9ba1a6"
+            value={customTo}
+            onChangeText={setCustomTo}
+          />
+          <TouchableOpacity style={styles.applyButton} onPress={handleApplyCustom}>
+            <Text style={styles.applyText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <Text style={styles.rangeText}>
+        {figures.range.from} to {figures.range.to}
+      </Text>
+
+      <View style={styles.card}>
+        <View style={styles.figureRow}>
+          <Text style={styles.figureLabel}>Lent</Text>
+          <Text style={[styles.figureValue, styles.lentText]}>{formatMoney(figures.lent)}</Text>
+        </View>
+        <View style={styles.figureRow}>
+          <Text style={styles.figureLabel}>Collected</Text>
+          <Text style={[styles.figureValue, styles.collectedText]}>{formatMoney(figures.collected)}</Text>
+        </View>
+        <View style={styles.figureRow}>
+          <Text style={styles.figureLabel}>Collection rate</Text>
+          <Text style={styles.figureValue}>
+            {figures.collectionRate === null ? '—' : `${Math.round(figures.collectionRate * 100)}%`}
+          </Text>
+        </View>
+        <View style={styles.figureRow}>
+          <Text style={styles.figureLabel}>Average days to repay</Text>
+          <Text style={styles.figureValue}>
+            {figures.averageDaysToRepay === null
+              ? '—'
+              : `${Math.round(figures.averageDaysToRepay)} days (${figures.repaidDebts} paid off)`}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={styles.cardTitle}>Last 12 Months</Text>
+      <View style={styles.card}>
+        <View style={styles.chart}>
+          {monthly.map((flow) => (
+            <View key={flow.month} style={styles.chartColumn}>
+              <View style={styles.bars}>
+                <View style={[styles.bar, styles.lentBar, { height: (flow.lent / largestMonth) * BAR_HEIGHT }]} />
+                <View
+                  style={[styles.bar, styles.collectedBar, { height: (flow.collected / largestMonth) * BAR_HEIGHT }]}
+                />
+              </View>
+              <Text style={styles.chartLabel}>{MONTH_INITIALS[Number(flow.month.slice(5, 7)) - 1]}</Text>
+            </View>
+          ))}
+        </View>
+        <View style={styles.legend}>
+          <View style={[styles.legendSwatch, styles.lentBar]} />
+          <Text style={styles.legendText}>Lent</Text>
+          <View style={[styles.legendSwatch, styles.collectedBar]} />
+          <Text style={styles.legendText}>Collected</Text>
+        </View>
+      </View>
+
+      <Text style={styles.cardTitle}>Outstanding by Age</Text>
+      <View style={styles.card}>
+        {aging.map((bucket) => (
+          <View key={bucket.label} style={styles.agingRow}>
+            <Text style={styles.agingLabel}>{bucket.label}</Text>
+            <View style={styles.agingTrack}>
+              <View
+                style={[
+                  styles.agingFill,
+                  bucket.minDays > 60 && styles.agingFillOld,
+                  { width: `${outstanding > 0 ? (bucket.amount / outstanding) * 100 : 0}%` },
+                ]}
+              />
+            </View>
+            <Text style={styles.agingValue}>{formatMoney(bucket.amount)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.cardTitle}>Top Debtors</Text>
+      <View style={styles.card}>
+        {topDebtors.length === 0 ? (
+          <Text style={styles.emptyText}>Nobody owes you anything.</Text>
+        ) : (
+          topDebtors.map((debtor, index) => (
+            <TouchableOpacity
+              key={debtor.id}
+              style={styles.figureRow}
+              onPress={() => router.push(`/debtor/${debtor.id}` as any)}
+            >
+              <Text style={styles.figureLabel} numberOfLines={1}>
+                {index + 1}. {debtor.name}
+              </Text>
+              <View style={styles.topValues}>
+                <Text style={styles.figureValue}>{formatMoney(debtor.balance)}</Text>
+                {debtor.overdueAmount > 0 && (
+                  <Text style={styles.overdueText}>{formatMoney(debtor.overdueAmount)} overdue</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginHorizontal: 16,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  periodChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#1a1d21',
+  },
+  periodChipActive: {
+    backgroundColor: '#3b82f6',
+  },
+  periodText: {
+    color: '#9ba1a6',
+    fontWeight: '600',
+  },
+  periodTextActive: {
+    color: '#fff',
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: '#1a1d21',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 8,
+    color: '#fff',
+    fontSize: 13,
+  },
+  applyButton: {
+    backgroundColor: '#3b82f6',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
+  applyText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  rangeText: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  figureRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  figureLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: '#d1d5db',
+  },
+  figureValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  lentText: {
+    color: '#f56565',
+  },
+  collectedText: {
+    color: '#48bb78',
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  chartColumn: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: BAR_HEIGHT,
+    gap: 1,
+  },
+  bar: {
+    width: 6,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  lentBar: {
+    backgroundColor: '#f56565',
+  },
+  collectedBar: {
+    backgroundColor: '#48bb78',
+  },
+  chartLabel: {
+    color: '#9ba1a6',
+    fontSize: 11,
+    marginTop: 4,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendText: {
+    color: '#9ba1a6',
+    fontSize: 12,
+    marginRight: 10,
+  },
+  agingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 10,
+  },
+  agingLabel: {
+    width: 76,
+    fontSize: 13,
+    color: '#d1d5db',
+  },
+  agingTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#374151',
+    overflow: 'hidden',
+  },
+  agingFill: {
+    height: 8,
+    backgroundColor: '#3b82f6',
+  },
+  agingFillOld: {
+    backgroundColor: '#fbbf24',
+  },
+  agingValue: {
+    minWidth: 90,
+    textAlign: 'right',
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  topValues: {
+    alignItems: 'flex-end',
+  },
+  overdueText: {
+    color: '#fbbf24',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: '#9ba1a6',
+    textAlign: 'center',
+  },
+});
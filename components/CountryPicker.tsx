@@ -0,0 +1,101 @@
+import { COUNTRIES, Country } from '@/utils/phone';
+import React from 'react';
+import { FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface CountryPickerProps {
+  visible: boolean;
+  selected: Country;
+  onSelect: (country: Country) => void;
+  onClose: () => void;
+}
+
+// Chooses the country that phone numbers without a country code belong to
+export default function CountryPicker({ visible, selected, onSelect, onClose }: Readonly<CountryPickerProps>) {
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Default Country</Text>
+          <Text style={styles.hint}>Numbers typed without a country code are saved as numbers of this country.</Text>
+          <FlatList
+            data={COUNTRIES}
+            keyExtractor={(country) => country.code}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.row, item.code === selected.code && styles.rowActive]}
+                onPress={() => {
+                  onSelect(item);
+                  onClose();
+                }}
+              >
+                <Text style={styles.rowText}>{item.name}</Text>
+                <Text style={styles.dialCode}>+{item.dialCode}</Text>
+              </TouchableOpacity>
+            )}
+          />
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#1a1d21',
+    padding: 24,
+    borderRadius: 16,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '80%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#9ba1a6',
+    marginBottom: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+  },
+  rowActive: {
+    backgroundColor: '#3b82f6',
+  },
+  rowText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  dialCode: {
+    color: '#d1d5db',
+    fontSize: 16,
+  },
+  closeButton: {
+    marginTop: 14,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#333',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,78 @@
+import { DebtStatus } from '@/types/allocation';
+import { formatMoney } from '@/utils/money';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface DebtAgingSummaryProps {
+  debts: DebtStatus[];
+}
+
+const BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '0-30 days', maxDays: 30 },
+  { label: '31-60 days', maxDays: 60 },
+  { label: '61-90 days', maxDays: 90 },
+  { label: '90+ days', maxDays: Infinity },
+];
+
+// Unpaid parts of a debtor's debts grouped by how long ago each debt was made
+export default function DebtAgingSummary({ debts }: Readonly<DebtAgingSummaryProps>) {
+  const open = debts.filter((debt) => debt.unpaid > 0);
+  if (open.length === 0) return null;
+
+  const totals = BUCKETS.map(() => 0);
+  for (const debt of open) {
+    const index = BUCKETS.findIndex((bucket) => debt.ageDays <= bucket.maxDays);
+    totals[index] += debt.unpaid;
+  }
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Unpaid by Age</Text>
+      <View style={styles.bucketRow}>
+        {BUCKETS.map((bucket, index) => (
+          <View key={bucket.label} style={styles.bucket}>
+            <Text style={styles.bucketLabel}>{bucket.label}</Text>
+            <Text style={[styles.bucketValue, totals[index] > 0 && index > 0 && styles.bucketValueOld]}>
+              {formatMoney(totals[index])}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 20,
+    paddingBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  bucket: {
+    flex: 1,
+    backgroundColor: '#23262a',
+    borderRadius: 10,
+    padding: 10,
+  },
+  bucketLabel: {
+    fontSize: 11,
+    color: '#9ba1a6',
+  },
+  bucketValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+    marginTop: 4,
+  },
+  bucketValueOld: {
+    color: '#fbbf24',
+  },
+});
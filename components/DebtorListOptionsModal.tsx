@@ -0,0 +1,280 @@
+import { DebtorListOptions, DebtorSort } from '@/types/debtor';
+import { formatAmount, parseMoney } from '@/utils/money';
+import { useEffect, useState } from 'react';
+import { Alert, Modal, ScrollView, StyleSheet, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+export const DEBTOR_SORT_LABELS: Record<DebtorSort, string> = {
+  BALANCE_DESC: 'Highest balance',
+  BALANCE_ASC: 'Lowest balance',
+  NAME: 'Name',
+  LAST_ACTIVITY: 'Last activity',
+  OLDEST_DEBT: 'Oldest unpaid debt',
+  CREATED: 'Newest added',
+};
+
+const BALANCE_STATES: { state: DebtorListOptions['balanceState']; label: string }[] = [
+  { state: null, label: 'Any' },
+  { state: 'NONZERO', label: 'Not zero' },
+  { state: 'ZERO', label: 'Zero' },
+];
+
+// How many of the options narrow the list
+export const countListOptions = (options: DebtorListOptions): number =>
+  [options.minBalance, options.maxBalance, options.balanceState, options.inactiveDays].filter((value) => value != null)
+    .length + (options.overdueOnly ? 1 : 0);
+
+interface DebtorListOptionsModalProps {
+  visible: boolean;
+  sort: DebtorSort;
+  options: DebtorListOptions;
+  onApply: (sort: DebtorSort, options: DebtorListOptions) => void;
+  onClose: () => void;
+}
+
+// Sort order and filters for the Debtors tab beyond the kind chips
+export default function DebtorListOptionsModal({
+  visible,
+  sort,
+  options,
+  onApply,
+  onClose,
+}: Readonly<DebtorListOptionsModalProps>) {
+  const [sortChoice, setSortChoice] = useState<DebtorSort>(sort);
+  const [balanceState, setBalanceState] = useState<DebtorListOptions['balanceState']>(null);
+  const [minBalance, setMinBalance] = useState('');
+  const [maxBalance, setMaxBalance] = useState('');
+  const [inactiveDays, setInactiveDays] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+
+  // Start from what is applied whenever the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setSortChoice(sort);
+    setBalanceState(options.balanceState ?? null);
+    setMinBalance(options.minBalance != null ? formatAmount(options.minBalance) : '');
+    setMaxBalance(options.maxBalance != null ? formatAmount(options.maxBalance) : '');
+    setInactiveDays(options.inactiveDays ? String(options.inactiveDays) : '');
+    setOverdueOnly(options.overdueOnly ?? false);
+  }, [visible, sort, options]);
+
+  const handleApply = () => {
+    const min = minBalance.trim() ? parseMoney(minBalance) : null;
+    const max = maxBalance.trim() ? parseMoney(maxBalance) : null;
+    if ((minBalance.trim() && min === null) || (maxBalance.trim() && max === null)) {
+      Alert.alert('Invalid Amount', 'Please enter a valid balance.');
+      return;
+    }
+    if (min !== null && max !== null && min > max) {
+      Alert.alert('Invalid Amounts', 'The minimum must not be more than the maximum.');
+      return;
+    }
+    const days = inactiveDays.trim() ? Number(inactiveDays.trim()) : null;
+    if (days !== null && (!Number.isInteger(days) || days < 1)) {
+      Alert.alert('Invalid Days', 'Enter a whole number of days.');
+      return;
+    }
+    onApply(sortChoice, {
+      minBalance: min,
+      maxBalance: max,
+      balanceState,
+      inactiveDays: days,
+      overdueOnly,
+    });
+    onClose();
+  };
+
+  const handleReset = () => {
+    onApply(sortChoice, {});
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <Text style={styles.title}>Sort & Filter</Text>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Sort by</Text>
+            <View style={styles.chips}>
+              {(Object.keys(DEBTOR_SORT_LABELS) as DebtorSort[]).map((choice) => (
+                <TouchableOpacity
+                  key={choice}
+                  style={[styles.chip, sortChoice === choice && styles.chipActive]}
+                  onPress={() => setSortChoice(choice)}
+                >
+                  <Text style={styles.chipText}>{DEBTOR_SORT_LABELS[choice]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Balance</Text>
+            <View style={styles.chips}>
+              {BALANCE_STATES.map(({ state, label }) => (
+                <TouchableOpacity
+                  key={label}
+                  style={[styles.chip, balanceState === state && styles.chipActive]}
+                  onPress={() => setBalanceState(state)}
+                >
+                  <Text style={styles.chipText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.half]}
+                placeholder="Min balance"
+                placeholderTextColor="#9ba1a6"
+                value={minBalance}
+                onChangeText={setMinBalance}
+                keyboardType="numbers-and-punctuation"
+              />
+              <TextInput
+                style={[styles.input, styles.half]}
+                placeholder="Max balance"
+                placeholderTextColor="#9ba1a6"
+                value={maxBalance}
+                onChangeText={setMaxBalance}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+
+            <Text style={styles.label}>No activity for at least</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.half]}
+                placeholder="Any"
+                placeholderTextColor="#9ba1a6"
+                value={inactiveDays}
+                onChangeText={setInactiveDays}
+                keyboardType="number-pad"
+              />
+              <Text style={[styles.unit, styles.half]}>days</Text>
+            </View>
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Only debtors with overdue amounts</Text>
+              <Switch value={overdueOnly} onValueChange={setOverdueOnly} />
+            </View>
+          </ScrollView>
+
+          <View style={styles.row}>
+            <TouchableOpacity style={[styles.button, styles.half]} onPress={handleReset}>
+              <Text style={styles.buttonText}>Clear Filters</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.applyButton, styles.half]} onPress={handleApply}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#1a1d21',
+    padding: 24,
+    borderRadius: 16,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 6,
+  },
+  label: {
+    color: '#d1d5db',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#374151',
+  },
+  chipActive: {
+    backgroundColor: '#3b82f6',
+  },
+  chipText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 10,
+  },
+  half: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 10,
+    color: '#fff',
+    fontSize: 15,
+  },
+  unit: {
+    color: '#9ba1a6',
+    fontSize: 15,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  switchLabel: {
+    color: '#d1d5db',
+    fontSize: 14,
+    flex: 1,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#374151',
+    alignItems: 'center',
+  },
+  applyButton: {
+    backgroundColor: '#3b82f6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    marginTop: 10,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  cancelText: {
+    color: '#9ba1a6',
+    fontSize: 15,
+  },
+});
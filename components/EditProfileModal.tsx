@@ -0,0 +1,151 @@
+import ProfileFields from '@/components/ProfileFields';
+import { validateDebtorProfile } from '@/database/customFieldService';
+import { CustomField } from '@/types/customField';
+import { DebtorProfile } from '@/types/debtor';
+import React, { useEffect, useState } from 'react';
+import { Alert, Animated, Easing, Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface EditProfileModalProps {
+  visible: boolean;
+  profile: DebtorProfile;
+  fields: CustomField[];
+  onClose: () => void;
+  onSave: (profile: DebtorProfile) => void;
+}
+
+export default function EditProfileModal({ visible, profile, fields, onClose, onSave }: Readonly<EditProfileModalProps>) {
+  const [showModal, setShowModal] = useState(visible);
+  const fadeAnim = useState(new Animated.Value(0))[0];
+  const scaleAnim = useState(new Animated.Value(0.9))[0];
+  const [draft, setDraft] = useState(profile);
+
+  // Animation effect
+  useEffect(() => {
+    if (visible) {
+      setShowModal(true);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 250,
+          useNativeDriver: true,
+          easing: Easing.out(Easing.ease),
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          friction: 8,
+          tension: 40,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 200,
+          useNativeDriver: true,
+          easing: Easing.in(Easing.ease),
+        }),
+        Animated.timing(scaleAnim, {
+          toValue: 0.9,
+          duration: 200,
+          useNativeDriver: true,
+        }),
+      ]).start(() => setShowModal(false));
+    }
+  }, [visible, fadeAnim, scaleAnim]);
+
+  // Start from the saved profile each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(profile);
+    }
+  }, [visible, profile]);
+
+  const handleSave = () => {
+    const problem = validateDebtorProfile(draft, fields);
+    if (problem) {
+      Alert.alert('Invalid Profile', problem);
+      return;
+    }
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <Modal visible={showModal} transparent>
+      <View style={styles.overlay}>
+        <Animated.View style={[styles.container, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>Edit Profile</Text>
+            <ProfileFields profile={draft} fields={fields} onChange={setDraft} />
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleSave}>
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#1a1d21',
+    padding: 24,
+    borderRadius: 16,
+    width: '90%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#333',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#3b82f6',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,249 @@
+import { isSignedTransactionType, Transaction, TransactionType } from '@/types/transaction';
+import { CURRENCY_PREFIX, formatAmount, MinorUnits, parseMoney } from '@/utils/money';
+import React, { useEffect, useState } from 'react';
+import { Alert, Animated, Easing, Modal, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface EditTransactionModalProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+  onSave: (id: number, amount: MinorUnits, date: string, time: string, note: string, dueDate: string | null) => void;
+  onDelete: (id: number) => void;
+}
+
+const MODAL_TITLES: Record<TransactionType, string> = {
+  IN: 'Edit Payment',
+  OUT: 'Edit Debt',
+  ADJUSTMENT: 'Edit Adjustment',
+  OPENING: 'Edit Opening Balance',
+  WAIVER: 'Edit Waiver',
+  WRITE_OFF: 'Edit Write-off',
+};
+
+const modalTitle = (transaction: Transaction | null): string => MODAL_TITLES[transaction?.type ?? 'OUT'];
+
+export default function EditTransactionModal({ transaction, onClose, onSave, onDelete }: Readonly<EditTransactionModalProps>) {
+  const visible = transaction !== null;
+  const [showModal, setShowModal] = useState(visible);
+  const fadeAnim = useState(new Animated.Value(0))[0];
+  const scaleAnim = useState(new Animated.Value(0.9))[0];
+
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [note, setNote] = useState('');
+  const [dueDate, setDueDate] = useState('');
+
+  // Animation effect
+  useEffect(() => {
+    if (visible) {
+      setShowModal(true);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 250,
+          useNativeDriver: true,
+          easing: Easing.out(Easing.ease),
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          friction: 8,
+          tension: 40,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 0,
+          duration: 200,
+          useNativeDriver: true,
+          easing: Easing.in(Easing.ease),
+        }),
+        Animated.timing(scaleAnim, {
+          toValue: 0.9,
+          duration: 200,
+          useNativeDriver: true,
+        }),
+      ]).start(() => setShowModal(false));
+    }
+  }, [visible, fadeAnim, scaleAnim]);
+
+  // Load the selected transaction into the form
+  useEffect(() => {
+    if (transaction) {
+      setAmount(formatAmount(transaction.amount));
+      setDate(transaction.date);
+      setTime(transaction.time);
+      setNote(transaction.note ?? '');
+      setDueDate(transaction.due_date ?? '');
+    }
+  }, [transaction]);
+
+  const handleSave = () => {
+    if (!transaction || !amount || !date || !time) return;
+    const value = parseMoney(amount);
+    if (value === null) {
+      Alert.alert('Invalid Amount', 'Enter a valid amount.');
+      return;
+    }
+    if (isSignedTransactionType(transaction.type)) {
+      // Signed entries may be negative, only zero is meaningless
+      if (value === 0) {
+        Alert.alert('Invalid Amount', 'Amount cannot be zero.');
+        return;
+      }
+    } else if (!(value > 0)) {
+      Alert.alert('Invalid Amount', 'Amount must be greater than zero.');
+      return;
+    }
+    const due = dueDate.trim();
+    if (due && !/^\d{4}-\d{2}-\d{2}$/.test(due)) {
+      Alert.alert('Invalid Due Date', 'Use the format YYYY-MM-DD.');
+      return;
+    }
+    onSave(transaction.id, value, date, time, note, due || null);
+  };
+
+  const handleDelete = () => {
+    if (!transaction) return;
+    Alert.alert('Delete Transaction', 'The debtor balance will be recalculated. Delete this transaction?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => onDelete(transaction.id),
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={showModal} transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <Animated.View style={[styles.container, { opacity: fadeAnim, transform: [{ scale: scaleAnim }] }]}>
+          <Text style={styles.title}>{modalTitle(transaction)}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={`Amount ${CURRENCY_PREFIX}`}
+            placeholderTextColor="#999"
+            keyboardType="numbers-and-punctuation"
+            value={amount}
+            onChangeText={setAmount}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Date (YYYY-MM-DD)"
+            placeholderTextColor="#999"
+            value={date}
+            onChangeText={setDate}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Time (HH:MM)"
+            placeholderTextColor="#999"
+            value={time}
+            onChangeText={setTime}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Note (optional)"
+            placeholderTextColor="#999"
+            value={note}
+            onChangeText={setNote}
+          />
+          {transaction?.type === 'OUT' && (
+            <TextInput
+              style={styles.input}
+              placeholder="Due Date (optional, YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={dueDate}
+              onChangeText={setDueDate}
+            />
+          )}
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleSave}>
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Text style={styles.deleteButtonText}>Delete Transaction</Text>
+          </TouchableOpacity>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    backgroundColor: '#1a1d21',
+    padding: 24,
+    borderRadius: 16,
+    width: '90%',
+    maxWidth: 400,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#333',
+    backgroundColor: '#25292e',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 14,
+    fontSize: 16,
+    color: '#fff',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#333',
+  },
+  saveButton: {
+    backgroundColor: '#3b82f6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  deleteButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,35 @@
+import { SEARCH_MARK_END, SEARCH_MARK_START } from '@/types/search';
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+interface HighlightedTextProps {
+  text: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+// Shows a search snippet with the matched words highlighted
+export default function HighlightedText({ text, style, numberOfLines }: Readonly<HighlightedTextProps>) {
+  // Marked words sit at the odd indexes once split on both markers
+  const parts = text.split(new RegExp(`[${SEARCH_MARK_START}${SEARCH_MARK_END}]`));
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <Text key={index} style={styles.match}>
+            {part}
+          </Text>
+        ) : (
+          part
+        )
+      )}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  match: {
+    color: '#fbbf24',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,151 @@
+import { InstallmentFrequency, InstallmentPlan, InstallmentStatus } from '@/types/installment';
+import { formatMoney } from '@/utils/money';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface InstallmentScheduleProps {
+  plans: InstallmentPlan[];
+  onRemove: (planId: number) => void;
+}
+
+const FREQUENCY_LABELS: Record<InstallmentFrequency, string> = {
+  WEEKLY: 'weekly',
+  BIWEEKLY: 'every 2 weeks',
+  MONTHLY: 'monthly',
+};
+
+const STATUS_LABELS: Record<InstallmentStatus, string> = {
+  PAID: 'Paid',
+  PARTIAL: 'Partial',
+  DUE: 'Due',
+  LATE: 'Late',
+};
+
+// Installment plans of a debtor's debts with the status of every installment.
+// Payments are applied to the schedule automatically, so this is read-only
+// apart from removing a plan.
+export default function InstallmentSchedule({ plans, onRemove }: Readonly<InstallmentScheduleProps>) {
+  if (plans.length === 0) return null;
+
+  const confirmRemove = (plan: InstallmentPlan) => {
+    Alert.alert('Remove Plan', 'The debt stays; only its installment schedule is removed. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => onRemove(plan.id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Installment Plans</Text>
+      {plans.map((plan) => (
+        <View key={plan.id} style={styles.planCard}>
+          <View style={styles.planHeader}>
+            <Text style={styles.planTitle}>
+              {formatMoney(plan.debtAmount)} on {plan.debtDate}, {FREQUENCY_LABELS[plan.frequency]}
+            </Text>
+            <TouchableOpacity onPress={() => confirmRemove(plan)}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+          {plan.installments.map((installment) => (
+            <View key={installment.seq} style={styles.installmentRow}>
+              <Text style={styles.installmentSeq}>#{installment.seq}</Text>
+              <Text style={styles.installmentDate}>{installment.dueDate}</Text>
+              <Text style={styles.installmentAmount}>
+                {installment.status === 'PARTIAL' || (installment.status === 'LATE' && installment.paid > 0)
+                  ? `${formatMoney(installment.paid)} / ${formatMoney(installment.amount)}`
+                  : formatMoney(installment.amount)}
+              </Text>
+              <Text style={[styles.statusBadge, styles[`status${installment.status}`]]}>
+                {STATUS_LABELS[installment.status]}
+              </Text>
+            </View>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  planCard: {
+    backgroundColor: '#23262a',
+    borderRadius: 10,
+    padding: 14,
+    marginBottom: 10,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  planTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  removeText: {
+    color: '#ef4444',
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  installmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+    gap: 10,
+  },
+  installmentSeq: {
+    width: 28,
+    color: '#9ba1a6',
+    fontSize: 13,
+  },
+  installmentDate: {
+    color: '#d1d5db',
+    fontSize: 13,
+  },
+  installmentAmount: {
+    flex: 1,
+    textAlign: 'right',
+    color: '#fff',
+    fontSize: 13,
+  },
+  statusBadge: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  statusPAID: {
+    color: '#10b981',
+    backgroundColor: 'rgba(16, 185, 129, 0.15)',
+  },
+  statusPARTIAL: {
+    color: '#fbbf24',
+    backgroundColor: 'rgba(251, 191, 36, 0.15)',
+  },
+  statusDUE: {
+    color: '#9ba1a6',
+    backgroundColor: 'rgba(155, 161, 166, 0.15)',
+  },
+  statusLATE: {
+    color: '#ef4444',
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+  },
+});
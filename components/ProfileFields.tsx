@@ -0,0 +1,166 @@
+import { CustomField } from '@/types/customField';
+import { DebtorProfile } from '@/types/debtor';
+import React from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface ProfileFieldsProps {
+  profile: DebtorProfile;
+  fields: CustomField[];
+  onChange: (profile: DebtorProfile) => void;
+  editable?: boolean;
+}
+
+const PLACEHOLDERS: Record<CustomField['type'], string> = {
+  TEXT: '',
+  NUMBER: '0',
+  DATE: 'YYYY-MM-DD',
+  SELECT: '',
+};
+
+// Address, email, ID number, notes and the user's custom fields, shared by the
+// add-debtor form and the profile editor
+export default function ProfileFields({ profile, fields, onChange, editable = true }: Readonly<ProfileFieldsProps>) {
+  const setCustomValue = (fieldId: number, value: string) =>
+    onChange({ ...profile, customValues: { ...profile.customValues, [fieldId]: value } });
+
+  const renderCustomField = (field: CustomField) => {
+    const value = profile.customValues[field.id] ?? '';
+    if (field.type === 'SELECT') {
+      return (
+        <View style={styles.optionRow}>
+          {field.options.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.optionButton, value === option && styles.optionButtonActive]}
+              // Tapping the selected option again clears it
+              onPress={() => setCustomValue(field.id, value === option ? '' : option)}
+              disabled={!editable}
+            >
+              <Text style={styles.optionText}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      );
+    }
+    return (
+      <TextInput
+        style={styles.input}
+        placeholder={PLACEHOLDERS[field.type] || field.name}
+        placeholderTextColor="#666"
+        value={value}
+        onChangeText={(text) => setCustomValue(field.id, text)}
+        keyboardType={field.type === 'NUMBER' ? 'decimal-pad' : 'default'}
+        editable={editable}
+      />
+    );
+  };
+
+  return (
+    <>
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Address</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Street, city"
+          placeholderTextColor="#666"
+          value={profile.address ?? ''}
+          onChangeText={(address) => onChange({ ...profile, address })}
+          editable={editable}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Email</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="name@example.com"
+          placeholderTextColor="#666"
+          value={profile.email ?? ''}
+          onChangeText={(email) => onChange({ ...profile, email })}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          editable={editable}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>ID Number</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="National ID or passport number"
+          placeholderTextColor="#666"
+          value={profile.nationalId ?? ''}
+          onChangeText={(nationalId) => onChange({ ...profile, nationalId })}
+          autoCapitalize="characters"
+          editable={editable}
+        />
+      </View>
+
+      {fields.map((field) => (
+        <View key={field.id} style={styles.inputGroup}>
+          <Text style={styles.label}>{field.name}</Text>
+          {renderCustomField(field)}
+        </View>
+      ))}
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          placeholder="Anything worth remembering"
+          placeholderTextColor="#666"
+          value={profile.notes ?? ''}
+          onChangeText={(notes) => onChange({ ...profile, notes })}
+          multiline
+          editable={editable}
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#fff',
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#333',
+  },
+  optionButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  optionText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+});
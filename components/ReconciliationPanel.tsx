@@ -0,0 +1,184 @@
+import { useSQLiteContext } from '@/database/db';
+import { BalanceDrift, findBalanceDrifts, repairAllBalanceDrifts, repairBalanceDrift } from '@/database/reconciliationService';
+import { formatMoney } from '@/utils/money';
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// Diagnostics card that compares each debtor's stored balance with the sum of
+// their transactions and offers to fix any mismatch with an adjustment entry.
+export default function ReconciliationPanel() {
+  const db = useSQLiteContext();
+  const [drifts, setDrifts] = useState<BalanceDrift[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const runCheck = async () => {
+    try {
+      setBusy(true);
+      setDrifts(await findBalanceDrifts(db));
+    } catch (e: any) {
+      Alert.alert('Balance check failed', e?.message ?? 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRepair = async (drift: BalanceDrift) => {
+    try {
+      setBusy(true);
+      await repairBalanceDrift(db, drift.debtorId);
+      setDrifts(await findBalanceDrifts(db));
+    } catch (e: any) {
+      Alert.alert('Repair failed', e?.message ?? 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRepairAll = async () => {
+    try {
+      setBusy(true);
+      const count = await repairAllBalanceDrifts(db);
+      setDrifts(await findBalanceDrifts(db));
+      Alert.alert('Balances repaired', `Added ${count} adjustment ${count === 1 ? 'entry' : 'entries'}.`);
+    } catch (e: any) {
+      Alert.alert('Repair failed', e?.message ?? 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>
+        <Ionicons name="git-compare-outline" size={18} /> Balance Check
+      </Text>
+      <Text style={styles.infoText}>
+        Recalculates each debtor&apos;s balance from their transactions and lists any that don&apos;t match.
+      </Text>
+      <TouchableOpacity style={styles.checkButton} onPress={runCheck} disabled={busy}>
+        {busy ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <>
+            <Ionicons name="search-outline" size={20} color="#fff" />
+            <Text style={styles.buttonText}>Check Balances</Text>
+          </>
+        )}
+      </TouchableOpacity>
+
+      {drifts !== null && drifts.length === 0 && (
+        <Text style={styles.okText}>✓ All balances match their transactions</Text>
+      )}
+      {drifts !== null && drifts.length > 0 && (
+        <>
+          {drifts.map((drift) => (
+            <View key={drift.debtorId} style={styles.driftCard}>
+              <View style={styles.driftInfo}>
+                <Text style={styles.driftName}>{drift.name}</Text>
+                <Text style={styles.driftMeta}>
+                  Stored {formatMoney(drift.storedBalance)} • Transactions {formatMoney(drift.expectedBalance)}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.repairButton} onPress={() => handleRepair(drift)} disabled={busy}>
+                <Text style={styles.repairButtonText}>Repair</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TouchableOpacity style={styles.repairAllButton} onPress={handleRepairAll} disabled={busy}>
+            <Text style={styles.buttonText}>Repair All ({drifts.length})</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: '#25292e',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#f9fafb',
+    marginBottom: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#d1d5db',
+    lineHeight: 20,
+  },
+  checkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 12,
+    gap: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  okText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#10b981',
+  },
+  driftCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1d21',
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: '#374151',
+  },
+  driftInfo: {
+    flex: 1,
+  },
+  driftName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#f9fafb',
+  },
+  driftMeta: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
+  repairButton: {
+    backgroundColor: '#374151',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  repairButtonText: {
+    color: '#fbbf24',
+    fontWeight: '600',
+  },
+  repairAllButton: {
+    alignItems: 'center',
+    backgroundColor: '#f59e0b',
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,205 @@
+import { TransactionFilter } from '@/types/transaction';
+import { formatAmount, parseMoney } from '@/utils/money';
+import { useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface TransactionFiltersProps {
+  filter: TransactionFilter;
+  onChange: (filter: TransactionFilter) => void;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const activeCount = (filter: TransactionFilter) =>
+  [filter.fromDate, filter.toDate, filter.minAmount, filter.maxAmount, filter.noteQuery].filter(
+    (value) => value != null && value !== ''
+  ).length;
+
+// Date range, amount range and note search for a debtor's transactions. The
+// entry type is chosen with the chips above it and is left untouched here.
+export default function TransactionFilters({ filter, onChange }: Readonly<TransactionFiltersProps>) {
+  const [open, setOpen] = useState(false);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [noteQuery, setNoteQuery] = useState('');
+
+  // Show what is applied whenever the panel opens
+  useEffect(() => {
+    if (!open) return;
+    setFromDate(filter.fromDate ?? '');
+    setToDate(filter.toDate ?? '');
+    setMinAmount(filter.minAmount != null ? formatAmount(filter.minAmount) : '');
+    setMaxAmount(filter.maxAmount != null ? formatAmount(filter.maxAmount) : '');
+    setNoteQuery(filter.noteQuery ?? '');
+  }, [open, filter]);
+
+  const handleApply = () => {
+    const from = fromDate.trim();
+    const to = toDate.trim();
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      Alert.alert('Invalid Date', 'Use the format YYYY-MM-DD.');
+      return;
+    }
+    if (from && to && from > to) {
+      Alert.alert('Invalid Dates', 'The start date must not be after the end date.');
+      return;
+    }
+    const min = minAmount.trim() ? parseMoney(minAmount) : null;
+    const max = maxAmount.trim() ? parseMoney(maxAmount) : null;
+    if ((minAmount.trim() && min === null) || (maxAmount.trim() && max === null)) {
+      Alert.alert('Invalid Amount', 'Please enter a valid amount.');
+      return;
+    }
+    if (min !== null && max !== null && min > max) {
+      Alert.alert('Invalid Amounts', 'The minimum must not be more than the maximum.');
+      return;
+    }
+    onChange({
+      ...filter,
+      fromDate: from || null,
+      toDate: to || null,
+      minAmount: min,
+      maxAmount: max,
+      noteQuery: noteQuery.trim() || null,
+    });
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    onChange({ type: filter.type });
+    setOpen(false);
+  };
+
+  const count = activeCount(filter);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toggleRow}>
+        <TouchableOpacity onPress={() => setOpen(!open)}>
+          <Text style={styles.toggleText}>
+            {open ? '▾' : '▸'} More filters{count > 0 ? ` (${count})` : ''}
+          </Text>
+        </TouchableOpacity>
+        {count > 0 && !open && (
+          <TouchableOpacity onPress={handleClear}>
+            <Text style={styles.clearText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {open && (
+        <View style={styles.panel}>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.half]}
+              placeholder="From (YYYY-MM-DD)"
+              placeholderTextColor="#9ba1a6"
+              value={fromDate}
+              onChangeText={setFromDate}
+            />
+            <TextInput
+              style={[styles.input, styles.half]}
+              placeholder="To (YYYY-MM-DD)"
+              placeholderTextColor="#9ba1a6"
+              value={toDate}
+              onChangeText={setToDate}
+            />
+          </View>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.half]}
+              placeholder="Min amount"
+              placeholderTextColor="#9ba1a6"
+              value={minAmount}
+              onChangeText={setMinAmount}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.half]}
+              placeholder="Max amount"
+              placeholderTextColor="#9ba1a6"
+              value={maxAmount}
+              onChangeText={setMaxAmount}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <TextInput
+            style={styles.input}
+            placeholder="Note contains..."
+            placeholderTextColor="#9ba1a6"
+            value={noteQuery}
+            onChangeText={setNoteQuery}
+          />
+          <View style={styles.row}>
+            <TouchableOpacity style={[styles.button, styles.half]} onPress={handleClear}>
+              <Text style={styles.buttonText}>Clear</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.applyButton, styles.half]} onPress={handleApply}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  toggleText: {
+    color: '#3b82f6',
+    fontSize: 15,
+    fontWeight: '600',
+    paddingVertical: 6,
+  },
+  clearText: {
+    color: '#ef4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  panel: {
+    backgroundColor: '#1a1d21',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 6,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  half: {
+    flex: 1,
+  },
+  input: {
+    backgroundColor: '#25292e',
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 10,
+    color: '#fff',
+    fontSize: 15,
+  },
+  button: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#374151',
+    alignItems: 'center',
+  },
+  applyButton: {
+    backgroundColor: '#3b82f6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Animated, Easing, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+interface UndoSnackbarProps {
+  // Message to show; null hides the snackbar
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// How long the snackbar stays up before it dismisses itself
+const VISIBLE_MS = 6000;
+
+export default function UndoSnackbar({ message, onUndo, onDismiss }: Readonly<UndoSnackbarProps>) {
+  const [shownMessage, setShownMessage] = useState(message);
+  const fadeAnim = useState(new Animated.Value(0))[0];
+
+  // Animation effect
+  useEffect(() => {
+    if (message) {
+      setShownMessage(message);
+      Animated.timing(fadeAnim, {
+        toValue: 1,
+        duration: 200,
+        useNativeDriver: true,
+        easing: Easing.out(Easing.ease),
+      }).start();
+      const timer = setTimeout(onDismiss, VISIBLE_MS);
+      return () => clearTimeout(timer);
+    }
+    Animated.timing(fadeAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+      easing: Easing.in(Easing.ease),
+    }).start(() => setShownMessage(null));
+  }, [message, fadeAnim, onDismiss]);
+
+  if (!shownMessage) return null;
+
+  return (
+    <Animated.View style={[styles.container, { opacity: fadeAnim }]} pointerEvents={message ? 'auto' : 'none'}>
+      <Text style={styles.message} numberOfLines={2}>
+        {shownMessage}
+      </Text>
+      <TouchableOpacity onPress={onUndo} accessibilityRole="button" accessibilityLabel="Undo">
+        <Text style={styles.undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#374151',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  undoText: {
+    color: '#fbbf24',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,170 @@
+import { refreshSQLiteProvider } from '@/database/db';
+import { balanceEffectSql, unpaidChargesSql } from '@/database/ledgerSql';
+import { DebtSettlement, DebtStatus, PaymentAllocation, PaymentAllocationInput } from '@/types/allocation';
+import { MinorUnits } from '@/utils/money';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// Entries that raised the balance are debts, entries that lowered it are
+// payments; both sides are matched oldest first
+const openDebtsQuery = `
+  SELECT u.id, u.unpaid AS open
+  FROM (${unpaidChargesSql()}) u
+  JOIN transactions t ON t.id = u.id
+  WHERE u.debtor_id = ? AND u.unpaid > 0
+  ORDER BY t.date, t.time, t.id
+`;
+
+const openPaymentsQuery = `
+  SELECT t.id, -(${balanceEffectSql('t')}) - COALESCE(SUM(a.amount), 0) AS open
+  FROM transactions t
+  LEFT JOIN payment_allocations a ON a.payment_id = t.id
+  WHERE t.debtor_id = ? AND (${balanceEffectSql('t')}) < 0
+  GROUP BY t.id
+  HAVING open > 0
+  ORDER BY t.date, t.time, t.id
+`;
+
+const addAllocation = async (
+  txn: SQLiteDatabase,
+  paymentId: number,
+  debtId: number,
+  amount: MinorUnits
+): Promise<void> => {
+  await txn.runAsync(
+    `INSERT INTO payment_allocations (payment_id, debt_id, amount) VALUES (?, ?, ?)
+     ON CONFLICT (payment_id, debt_id) DO UPDATE SET amount = amount + excluded.amount`,
+    [paymentId, debtId, amount]
+  );
+};
+
+// Apply every unallocated payment amount of a debtor to their open debts,
+// oldest first. Run inside the caller's transaction after any ledger write so
+// that a debtor never has both an open debt and an unapplied payment.
+export const allocateOpenPayments = async (txn: SQLiteDatabase, debtorId: number): Promise<void> => {
+  const debts = await txn.getAllAsync<{ id: number; open: number }>(openDebtsQuery, [debtorId]);
+  if (debts.length === 0) return;
+  const payments = await txn.getAllAsync<{ id: number; open: number }>(openPaymentsQuery, [debtorId]);
+
+  let d = 0;
+  for (const payment of payments) {
+    while (payment.open > 0 && d < debts.length) {
+      const applied = Math.min(payment.open, debts[d].open);
+      await addAllocation(txn, payment.id, debts[d].id, applied);
+      payment.open -= applied;
+      debts[d].open -= applied;
+      if (debts[d].open === 0) d++;
+    }
+  }
+};
+
+// Apply a new payment to the debts the user picked. Whatever the choices leave
+// over is applied oldest first by allocateOpenPayments.
+export const applyManualAllocations = async (
+  txn: SQLiteDatabase,
+  debtorId: number,
+  paymentId: number,
+  paymentAmount: MinorUnits,
+  allocations: PaymentAllocationInput[]
+): Promise<void> => {
+  const total = allocations.reduce((sum, a) => sum + a.amount, 0);
+  if (total > paymentAmount) {
+    throw new Error('Allocated amounts exceed the payment');
+  }
+  for (const allocation of allocations) {
+    if (!Number.isInteger(allocation.amount) || allocation.amount <= 0) {
+      throw new Error('Allocated amounts must be greater than zero');
+    }
+    const debt = await txn.getFirstAsync<{ unpaid: number }>(
+      `SELECT u.unpaid FROM (${unpaidChargesSql()}) u WHERE u.id = ? AND u.debtor_id = ?`,
+      [allocation.debtId, debtorId]
+    );
+    if (!debt) {
+      throw new Error(`Debt ${allocation.debtId} not found for this debtor`);
+    }
+    if (allocation.amount > debt.unpaid) {
+      throw new Error('Allocated amount is more than the unpaid part of the debt');
+    }
+    await addAllocation(txn, paymentId, allocation.debtId, allocation.amount);
+  }
+};
+
+// Drop the allocations a ledger entry takes part in, on either side, so they
+// can be recomputed after it was edited or deleted. Deleted explicitly rather
+// than relying on ON DELETE CASCADE, which only applies where foreign keys are
+// enabled.
+export const clearAllocationsForEntry = async (txn: SQLiteDatabase, transactionId: number): Promise<void> => {
+  await txn.runAsync(
+    'DELETE FROM payment_allocations WHERE payment_id = ? OR debt_id = ?',
+    [transactionId, transactionId]
+  );
+};
+
+const settlementOf = (paid: MinorUnits, unpaid: MinorUnits): DebtSettlement => {
+  if (unpaid === 0) return 'SETTLED';
+  return paid > 0 ? 'PARTIAL' : 'OPEN';
+};
+
+// Get how much of each of a debtor's debts is paid, and which payment went to
+// which debt
+export const getAllocationSummary = async (
+  db: SQLiteDatabase,
+  debtorId: number
+): Promise<{ debts: DebtStatus[]; allocations: PaymentAllocation[] }> => {
+  if (!db) {
+    console.warn('[getAllocationSummary] Database is null, returning empty summary');
+    return { debts: [], allocations: [] };
+  }
+
+  try {
+    const rows = await db.getAllAsync<{
+      id: number;
+      date: string;
+      note: string | null;
+      amount: number;
+      unpaid: number;
+      age_days: number;
+    }>(
+      `SELECT u.id, t.date, t.note, u.amount, u.unpaid,
+              CAST(julianday(date('now', 'localtime')) - julianday(t.date) AS INTEGER) AS age_days
+       FROM (${unpaidChargesSql()}) u
+       JOIN transactions t ON t.id = u.id
+       WHERE u.debtor_id = ?
+       ORDER BY t.date, t.time, t.id`,
+      [debtorId]
+    );
+    const allocations = await db.getAllAsync<PaymentAllocation>(
+      `SELECT a.* FROM payment_allocations a
+       JOIN transactions t ON t.id = a.payment_id
+       WHERE t.debtor_id = ?
+       ORDER BY a.payment_id, a.debt_id`,
+      [debtorId]
+    );
+
+    return {
+      debts: rows.map((row) => ({
+        transactionId: row.id,
+        date: row.date,
+        note: row.note,
+        amount: row.amount,
+        paid: row.amount - row.unpaid,
+        unpaid: row.unpaid,
+        status: settlementOf(row.amount - row.unpaid, row.unpaid),
+        ageDays: Math.max(0, row.age_days ?? 0),
+      })),
+      allocations,
+    };
+  } catch (error: any) {
+    console.error('[getAllocationSummary] Error fetching allocations:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      console.warn('[getAllocationSummary] Database not available, requesting provider refresh');
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getAllocationSummary] refreshSQLiteProvider failed:', e);
+      }
+      return { debts: [], allocations: [] };
+    }
+    throw error;
+  }
+};
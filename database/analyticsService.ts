@@ -0,0 +1,158 @@
+import { refreshSQLiteProvider } from '@/database/db';
+import { balanceEffectSql, overdueByDebtorSql, unpaidChargesSql } from '@/database/ledgerSql';
+import { AgingBucket, Analytics, AnalyticsPeriod, DateRange, MonthlyFlow, TopDebtor } from '@/types/analytics';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const TREND_MONTHS = 12;
+const TOP_DEBTOR_COUNT = 5;
+
+const AGING_BUCKETS: Omit<AgingBucket, 'amount'>[] = [
+  { label: '0-30 days', minDays: 0, maxDays: 30 },
+  { label: '31-60 days', minDays: 31, maxDays: 60 },
+  { label: '61-90 days', minDays: 61, maxDays: 90 },
+  { label: '90+ days', minDays: 91, maxDays: null },
+];
+
+// Entries of debtors that are not in the trash
+const DEBTOR_LEDGER =
+  "transactions t JOIN debtors d ON d.id = t.debtor_id AND d.kind = 'DEBTOR' AND d.deleted_at IS NULL";
+
+// Lent is everything that raised a balance; collected is everything that
+// lowered one except waivers and write-offs, as in getStatistics
+const LENT_SQL = `CASE WHEN ${balanceEffectSql('t')} > 0 THEN ${balanceEffectSql('t')} ELSE 0 END`;
+const COLLECTED_SQL = `CASE WHEN ${balanceEffectSql('t')} < 0 AND t.type NOT IN ('WAIVER', 'WRITE_OFF')
+  THEN -(${balanceEffectSql('t')}) ELSE 0 END`;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const todayString = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// The dates a period covers, up to and including today. A custom period has
+// no fixed range, so it is not accepted here.
+export const periodRange = (period: Exclude<AnalyticsPeriod, 'CUSTOM'>, today: string = todayString()): DateRange => {
+  const [year, month] = today.split('-').map(Number);
+  switch (period) {
+    case 'QUARTER':
+      return { from: `${year}-${pad(Math.floor((month - 1) / 3) * 3 + 1)}-01`, to: today };
+    case 'YEAR':
+      return { from: `${year}-01-01`, to: today };
+    case 'MONTH':
+      return { from: `${year}-${pad(month)}-01`, to: today };
+  }
+};
+
+// YYYY-MM of the last `count` months, oldest first, ending with today's
+const recentMonths = (count: number, today: string): string[] => {
+  const [year, month] = today.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.UTC(year, month - count + i, 1));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+  });
+};
+
+const emptyAnalytics = (range: DateRange): Analytics => ({
+  period: { range, lent: 0, collected: 0, collectionRate: null, averageDaysToRepay: null, repaidDebts: 0 },
+  monthly: [],
+  aging: AGING_BUCKETS.map((bucket) => ({ ...bucket, amount: 0 })),
+  topDebtors: [],
+});
+
+// Lending and collection figures for the given period, plus the 12-month
+// trend, the age of what is still unpaid and the largest balances, which do
+// not depend on the period
+export const getAnalytics = async (db: SQLiteDatabase, range: DateRange): Promise<Analytics> => {
+  if (!db) {
+    console.warn('[getAnalytics] Database connection is null or undefined');
+    return emptyAnalytics(range);
+  }
+
+  try {
+    const totals = await db.getFirstAsync<{ lent: number; collected: number }>(
+      `SELECT COALESCE(SUM(${LENT_SQL}), 0) AS lent, COALESCE(SUM(${COLLECTED_SQL}), 0) AS collected
+       FROM ${DEBTOR_LEDGER}
+       WHERE t.date BETWEEN ? AND ?`,
+      [range.from, range.to]
+    );
+    const lent = totals?.lent ?? 0;
+    const collected = totals?.collected ?? 0;
+
+    // A debt is repaid on the date of the last entry allocated to it, once
+    // allocations cover all of it
+    const repaid = await db.getFirstAsync<{ average: number | null; count: number }>(
+      `SELECT AVG(days) AS average, COUNT(*) AS count FROM (
+         SELECT julianday(MAX(p.date)) - julianday(t.date) AS days
+         FROM ${DEBTOR_LEDGER}
+         JOIN payment_allocations a ON a.debt_id = t.id
+         JOIN transactions p ON p.id = a.payment_id
+         WHERE ${balanceEffectSql('t')} > 0
+         GROUP BY t.id
+         HAVING SUM(a.amount) >= ${balanceEffectSql('t')} AND MAX(p.date) BETWEEN ? AND ?
+       )`,
+      [range.from, range.to]
+    );
+
+    const today = todayString();
+    const months = recentMonths(TREND_MONTHS, today);
+    const flows = await db.getAllAsync<MonthlyFlow>(
+      `SELECT substr(t.date, 1, 7) AS month, SUM(${LENT_SQL}) AS lent, SUM(${COLLECTED_SQL}) AS collected
+       FROM ${DEBTOR_LEDGER}
+       WHERE t.date >= ? AND t.date <= ?
+       GROUP BY month`,
+      [`${months[0]}-01`, today]
+    );
+    const flowsByMonth = new Map(flows.map((flow) => [flow.month, flow]));
+
+    const agingRows = await db.getAllAsync<{ age: number; unpaid: number }>(
+      `SELECT CAST(julianday(?) - julianday(t.date) AS INTEGER) AS age, u.unpaid
+       FROM (${unpaidChargesSql()}) u
+       JOIN transactions t ON t.id = u.id
+       JOIN debtors d ON d.id = t.debtor_id AND d.kind = 'DEBTOR' AND d.deleted_at IS NULL
+       WHERE u.unpaid > 0`,
+      [today]
+    );
+    const aging = AGING_BUCKETS.map((bucket) => ({ ...bucket, amount: 0 }));
+    for (const row of agingRows) {
+      const bucket = aging.find((b) => b.maxDays === null || Math.max(row.age, 0) <= b.maxDays);
+      if (bucket) bucket.amount += row.unpaid;
+    }
+
+    const topDebtors = await db.getAllAsync<TopDebtor>(
+      `SELECT d.id, d.name, d.balance, COALESCE(o.overdue_amount, 0) AS overdueAmount
+       FROM debtors d
+       LEFT JOIN (${overdueByDebtorSql()}) o ON o.debtor_id = d.id
+       WHERE d.kind = 'DEBTOR' AND d.deleted_at IS NULL AND d.balance > 0
+       ORDER BY d.balance DESC, d.id
+       LIMIT ?`,
+      [TOP_DEBTOR_COUNT]
+    );
+
+    return {
+      period: {
+        range,
+        lent,
+        collected,
+        collectionRate: lent > 0 ? collected / lent : null,
+        averageDaysToRepay: repaid?.count ? repaid.average : null,
+        repaidDebts: repaid?.count ?? 0,
+      },
+      monthly: months.map((month) => flowsByMonth.get(month) ?? { month, lent: 0, collected: 0 }),
+      aging,
+      topDebtors,
+    };
+  } catch (error: any) {
+    console.error('[getAnalytics] Error fetching analytics:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getAnalytics] refreshSQLiteProvider failed:', e);
+      }
+      return emptyAnalytics(range);
+    }
+    throw error;
+  }
+};
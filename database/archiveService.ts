@@ -0,0 +1,114 @@
+import { auditDebtorChange, snapshotDebtor } from '@/database/auditService';
+import { getSetting, setSetting } from '@/database/settingsService';
+import { runInTransaction } from '@/database/transactionRunner';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const AUTO_ARCHIVE_SETTING = 'auto_archive_days';
+
+// Settled debtors are archived automatically once their balance has been zero
+// for this many days; 0 turns auto-archiving off
+export const getAutoArchiveDays = async (db: SQLiteDatabase): Promise<number> => {
+  const value = Number(await getSetting(db, AUTO_ARCHIVE_SETTING));
+  return Number.isInteger(value) && value > 0 ? value : 0;
+};
+
+export const setAutoArchiveDays = async (db: SQLiteDatabase, days: number): Promise<void> => {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('Auto-archive must be a whole number of days');
+  }
+  await setSetting(db, AUTO_ARCHIVE_SETTING, String(days));
+};
+
+// Archive a debtor whose balance is settled. They stay out of the main list
+// until unarchived or their balance moves off zero again.
+export const archiveDebtor = async (db: SQLiteDatabase, id: number): Promise<void> => {
+  if (!db) {
+    console.warn('[archiveDebtor] Database is null, cannot archive debtor');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
+      if (!before) {
+        throw new Error(`Debtor ${id} not found`);
+      }
+      if (before.balance !== 0) {
+        throw new Error('Only settled debtors with a zero balance can be archived');
+      }
+      await txn.runAsync(
+        'UPDATE debtors SET archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND archived_at IS NULL',
+        [id]
+      );
+      await auditDebtorChange(txn, id, 'UPDATE', before);
+    });
+  } catch (error: any) {
+    console.error('[archiveDebtor] Error archiving debtor:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Bring an archived debtor back to the main list
+export const unarchiveDebtor = async (db: SQLiteDatabase, id: number): Promise<void> => {
+  if (!db) {
+    console.warn('[unarchiveDebtor] Database is null, cannot unarchive debtor');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
+      await txn.runAsync(
+        'UPDATE debtors SET archived_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND archived_at IS NOT NULL',
+        [id]
+      );
+      await auditDebtorChange(txn, id, 'UPDATE', before);
+    });
+  } catch (error: any) {
+    console.error('[unarchiveDebtor] Error unarchiving debtor:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Bring an archived debtor back to the main list once their balance is no
+// longer zero. Call inside the caller's transaction after every change to a
+// stored balance.
+export const unarchiveIfOwing = async (txn: SQLiteDatabase, id: number): Promise<void> => {
+  const archived = await txn.getFirstAsync<{ id: number }>(
+    'SELECT id FROM debtors WHERE id = ? AND archived_at IS NOT NULL AND balance != 0',
+    [id]
+  );
+  if (!archived) return;
+  const before = await snapshotDebtor(txn, id);
+  await txn.runAsync('UPDATE debtors SET archived_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+  await auditDebtorChange(txn, id, 'UPDATE', before);
+};
+
+// Archive every debtor whose balance has been zero for the auto-archive period,
+// counted from their latest transaction (or from when they were added if they
+// have none). Run at app start; returns how many were archived.
+export const autoArchiveSettled = async (db: SQLiteDatabase): Promise<number> => {
+  const days = await getAutoArchiveDays(db);
+  if (days === 0) return 0;
+  return runInTransaction(db, async (txn) => {
+    const rows = await txn.getAllAsync<{ id: number }>(
+      `SELECT d.id FROM debtors d
+       WHERE d.balance = 0 AND d.archived_at IS NULL AND d.deleted_at IS NULL
+         AND COALESCE((SELECT MAX(t.date) FROM transactions t WHERE t.debtor_id = d.id), date(d.created_at))
+             <= date('now', 'localtime', ?)`,
+      [`-${days} days`]
+    );
+    for (const { id } of rows) {
+      const before = await snapshotDebtor(txn, id);
+      await txn.runAsync('UPDATE debtors SET archived_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+      await auditDebtorChange(txn, id, 'UPDATE', before);
+    }
+    return rows.length;
+  });
+};
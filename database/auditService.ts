@@ -0,0 +1,182 @@
+import { refreshSQLiteProvider } from '@/database/db';
+import { loadPhoneNumbers } from '@/database/phoneService';
+import { AuditEntity, AuditEntry, AuditOperation, DebtorSnapshot } from '@/types/audit';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface AuditEntryInput {
+  debtorId: number;
+  entity: AuditEntity;
+  entityId: number;
+  operation: AuditOperation;
+  oldValue?: object | null;
+  newValue?: object | null;
+  revertsId?: number | null;
+  system?: boolean;
+}
+
+export type AuditRow = {
+  id: number;
+  debtor_id: number;
+  entity: AuditEntity;
+  entity_id: number;
+  operation: AuditOperation;
+  old_value: string | null;
+  new_value: string | null;
+  reverts_id: number | null;
+  is_system: number;
+  created_at: string;
+};
+
+export const toAuditEntry = (row: AuditRow): AuditEntry => ({
+  id: row.id,
+  debtorId: row.debtor_id,
+  entity: row.entity,
+  entityId: row.entity_id,
+  operation: row.operation,
+  oldValue: row.old_value ? JSON.parse(row.old_value) : null,
+  newValue: row.new_value ? JSON.parse(row.new_value) : null,
+  revertsId: row.reverts_id,
+  system: row.is_system === 1,
+  createdAt: row.created_at,
+});
+
+// Append an entry to the audit log. Call it with the transaction handle of the
+// change being recorded so the entry commits or rolls back with it.
+export const writeAuditEntry = async (txn: SQLiteDatabase, entry: AuditEntryInput): Promise<void> => {
+  await txn.runAsync(
+    `INSERT INTO audit_log (debtor_id, entity, entity_id, operation, old_value, new_value, reverts_id, is_system)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.debtorId,
+      entry.entity,
+      entry.entityId,
+      entry.operation,
+      entry.oldValue ? JSON.stringify(entry.oldValue) : null,
+      entry.newValue ? JSON.stringify(entry.newValue) : null,
+      entry.revertsId ?? null,
+      entry.system ? 1 : 0,
+    ]
+  );
+};
+
+// The audited fields of a debtor, or null if there is no such debtor
+export const snapshotDebtor = async (txn: SQLiteDatabase, id: number): Promise<DebtorSnapshot | null> => {
+  const row = await txn.getFirstAsync<{
+    name: string;
+    kind: string;
+    balance: number;
+    deleted_at: string | null;
+    archived_at: string | null;
+    address: string | null;
+    email: string | null;
+    notes: string | null;
+    national_id: string | null;
+  }>(
+    `SELECT d.name, d.kind, d.balance, d.deleted_at, d.archived_at, d.address, d.email, d.notes, d.national_id
+     FROM debtors d WHERE d.id = ?`,
+    [id]
+  );
+  if (!row) return null;
+  const phones = (await loadPhoneNumbers(txn, [id])).get(id) ?? [];
+  const customRows = await txn.getAllAsync<{ name: string; value: string }>(
+    `SELECT f.name, v.value FROM debtor_custom_values v
+     JOIN custom_fields f ON f.id = v.field_id
+     WHERE v.debtor_id = ? ORDER BY f.position, f.id`,
+    [id]
+  );
+  return {
+    name: row.name,
+    kind: row.kind,
+    balance: row.balance,
+    phoneNumbers: phones.map((phone) => phone.number),
+    deletedAt: row.deleted_at,
+    archivedAt: row.archived_at,
+    address: row.address,
+    email: row.email,
+    notes: row.notes,
+    nationalId: row.national_id,
+    customValues: Object.fromEntries(customRows.map((custom) => [custom.name, custom.value])),
+    phones,
+  };
+};
+
+// Record a debtor change unless nothing audited actually changed
+export const auditDebtorChange = async (
+  txn: SQLiteDatabase,
+  id: number,
+  operation: AuditOperation,
+  before: DebtorSnapshot | null,
+  revertsId: number | null = null
+): Promise<void> => {
+  const after = await snapshotDebtor(txn, id);
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  await writeAuditEntry(txn, {
+    debtorId: id,
+    entity: 'DEBTOR',
+    entityId: id,
+    operation,
+    oldValue: before,
+    newValue: after,
+    revertsId,
+  });
+};
+
+// Id of the newest entry for a debtor or transaction, e.g. to undo exactly
+// the change just made to it; null when there is none
+export const getLatestAuditId = async (
+  db: SQLiteDatabase,
+  entity: AuditEntity,
+  entityId: number
+): Promise<number | null> => {
+  if (!db) {
+    console.warn('[getLatestAuditId] Database connection is null or undefined');
+    return null;
+  }
+
+  try {
+    const row = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM audit_log WHERE entity = ? AND entity_id = ? ORDER BY id DESC LIMIT 1',
+      [entity, entityId]
+    );
+    return row?.id ?? null;
+  } catch (error: any) {
+    console.error('[getLatestAuditId] Error fetching entry:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getLatestAuditId] refreshSQLiteProvider failed:', e);
+      }
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Get a debtor's history, newest first
+export const getAuditLogForDebtor = async (db: SQLiteDatabase, debtorId: number): Promise<AuditEntry[]> => {
+  if (!db) {
+    console.warn('[getAuditLogForDebtor] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    const rows = await db.getAllAsync<AuditRow>('SELECT * FROM audit_log WHERE debtor_id = ? ORDER BY id DESC', [
+      debtorId,
+    ]);
+    return rows.map(toAuditEntry);
+  } catch (error: any) {
+    console.error('[getAuditLogForDebtor] Error fetching history:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getAuditLogForDebtor] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,385 @@
+import { allocateOpenPayments } from '@/database/allocationService';
+import { unarchiveIfOwing } from '@/database/archiveService';
+import { writeAuditEntry } from '@/database/auditService';
+import { refreshSQLiteProvider } from '@/database/db';
+import { balanceEffectSql, unpaidChargesSql } from '@/database/ledgerSql';
+import { indexTransaction } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { ChargeRule, ChargeRuleInput, ProposedCharge } from '@/types/chargeRule';
+import { formatMoney, MinorUnits } from '@/utils/money';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const todayString = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const result = new Date(Date.UTC(year, month - 1, day + days));
+  return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+};
+
+// Percentages are kept as integer basis points: "2.5" -> 250
+export const parsePercent = (text: string): number | null => {
+  const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(text.trim());
+  if (!match) return null;
+  return Number(match[1]) * 100 + Number((match[2] ?? '').padEnd(2, '0'));
+};
+
+export const formatPercent = (bp: number): string =>
+  bp % 100 === 0 ? String(bp / 100) : (bp / 100).toFixed(2).replace(/0$/, '');
+
+const percentOf = (amount: MinorUnits, bp: number): MinorUnits => Math.round((amount * bp) / 10000);
+
+// Get the rule stored for a debtor, or the global default when debtorId is null
+export const getChargeRule = async (
+  db: SQLiteDatabase,
+  debtorId: number | null
+): Promise<ChargeRule | null> => {
+  if (!db) {
+    console.warn('[getChargeRule] Database connection is null or undefined');
+    return null;
+  }
+
+  try {
+    return debtorId === null
+      ? await db.getFirstAsync<ChargeRule>('SELECT * FROM charge_rules WHERE debtor_id IS NULL')
+      : await db.getFirstAsync<ChargeRule>('SELECT * FROM charge_rules WHERE debtor_id = ?', [debtorId]);
+  } catch (error: any) {
+    console.error('[getChargeRule] Error fetching rule:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getChargeRule] refreshSQLiteProvider failed:', e);
+      }
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Create or replace the rule for a debtor, or the global default when
+// debtorId is null
+export const saveChargeRule = async (
+  db: SQLiteDatabase,
+  debtorId: number | null,
+  input: ChargeRuleInput
+): Promise<void> => {
+  if (!db) {
+    console.warn('[saveChargeRule] Database is null, cannot save rule');
+    throw new Error('Database not available');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) {
+    throw new Error('Start date must be in the format YYYY-MM-DD');
+  }
+  if (![input.monthlyRateBp, input.lateFeeValue, input.graceDays].every((n) => Number.isInteger(n) && n >= 0)) {
+    throw new Error('Rates, fees and grace days must be zero or more');
+  }
+
+  const values = [
+    input.interestType,
+    input.monthlyRateBp,
+    input.lateFeeType,
+    input.lateFeeValue,
+    input.graceDays,
+    input.autoPost ? 1 : 0,
+    input.startDate,
+  ];
+  try {
+    await runInTransaction(db, async (txn) => {
+      const where = debtorId === null ? 'debtor_id IS NULL' : 'debtor_id = ?';
+      const whereParams = debtorId === null ? [] : [debtorId];
+      const existing = await txn.getFirstAsync<{ id: number }>(`SELECT id FROM charge_rules WHERE ${where}`, whereParams);
+      if (existing) {
+        await txn.runAsync(
+          `UPDATE charge_rules SET interest_type = ?, monthly_rate_bp = ?, late_fee_type = ?, late_fee_value = ?,
+             grace_days = ?, auto_post = ?, start_date = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [...values, existing.id]
+        );
+      } else {
+        await txn.runAsync(
+          `INSERT INTO charge_rules (debtor_id, interest_type, monthly_rate_bp, late_fee_type, late_fee_value,
+             grace_days, auto_post, start_date) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [debtorId, ...values]
+        );
+      }
+    });
+  } catch (error: any) {
+    console.error('[saveChargeRule] Error saving rule:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Remove a debtor's own rule so the global default applies again
+export const deleteChargeRule = async (db: SQLiteDatabase, debtorId: number): Promise<void> => {
+  if (!db) {
+    console.warn('[deleteChargeRule] Database is null, cannot delete rule');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await db.runAsync('DELETE FROM charge_rules WHERE debtor_id = ?', [debtorId]);
+  } catch (error: any) {
+    console.error('[deleteChargeRule] Error deleting rule:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Remember the period of a charge entry about to be removed, so it is not
+// posted again. Call inside the caller's transaction before deleting the row;
+// entries that are not charges are ignored.
+export const skipChargeOf = async (txn: SQLiteDatabase, transactionId: number): Promise<void> => {
+  await txn.runAsync(
+    `INSERT OR IGNORE INTO skipped_charges (debtor_id, charge_kind, charge_period)
+     SELECT debtor_id, charge_kind, charge_period FROM transactions
+     WHERE id = ? AND charge_kind IS NOT NULL AND charge_period IS NOT NULL`,
+    [transactionId]
+  );
+};
+
+// A charge entry that came back, e.g. by undoing its deletion, covers its
+// period again
+export const unskipChargeOf = async (txn: SQLiteDatabase, transactionId: number): Promise<void> => {
+  await txn.runAsync(
+    `DELETE FROM skipped_charges WHERE EXISTS (
+       SELECT 1 FROM transactions t
+       WHERE t.id = ? AND t.debtor_id = skipped_charges.debtor_id
+         AND t.charge_kind = skipped_charges.charge_kind AND t.charge_period = skipped_charges.charge_period
+     )`,
+    [transactionId]
+  );
+};
+
+type LedgerRow = { id: number; date: string; effect: number; charge_kind: string | null; charge_period: string | null };
+
+// Work out which charges a debtor's rule calls for up to `asOf` that are not
+// posted yet. Late fees apply once to every debt still unpaid `grace_days`
+// after its due date. Interest is charged per calendar month on the balance
+// at the end of the month: on the whole balance for COMPOUND, on the balance
+// minus earlier interest and fees for SIMPLE.
+const proposeForDebtor = async (
+  db: SQLiteDatabase,
+  debtor: { id: number; name: string },
+  rule: ChargeRule,
+  asOf: string
+): Promise<ProposedCharge[]> => {
+  const ledger = await db.getAllAsync<LedgerRow>(
+    `SELECT t.id, t.date, ${balanceEffectSql('t')} AS effect, t.charge_kind, t.charge_period
+     FROM transactions t WHERE t.debtor_id = ? ORDER BY t.date, t.time, t.id`,
+    [debtor.id]
+  );
+  // Periods whose charge was removed count as posted
+  const skipped = await db.getAllAsync<{ charge_kind: string; charge_period: string }>(
+    'SELECT charge_kind, charge_period FROM skipped_charges WHERE debtor_id = ?',
+    [debtor.id]
+  );
+  const posted = new Set(
+    [...ledger.filter((row) => row.charge_kind), ...skipped].map((row) => `${row.charge_kind}|${row.charge_period}`)
+  );
+  const proposals: ProposedCharge[] = [];
+  const propose = (charge: Omit<ProposedCharge, 'debtorId' | 'debtorName'>) => {
+    if (charge.amount > 0 && !posted.has(`${charge.kind}|${charge.period}`)) {
+      proposals.push({ debtorId: debtor.id, debtorName: debtor.name, ...charge });
+    }
+  };
+
+  if (rule.late_fee_type !== 'NONE' && rule.late_fee_value > 0) {
+    const lateDebts = await db.getAllAsync<{ id: number; date: string; due_date: string; unpaid: number }>(
+      `SELECT u.id, t.date, u.due_date, u.unpaid
+       FROM (${unpaidChargesSql()}) u
+       JOIN transactions t ON t.id = u.id
+       WHERE u.debtor_id = ? AND u.unpaid > 0 AND u.due_date IS NOT NULL AND t.charge_kind IS NULL`,
+      [debtor.id]
+    );
+    for (const debt of lateDebts) {
+      const feeDate = addDays(debt.due_date, rule.grace_days + 1);
+      if (feeDate > asOf) continue;
+      propose({
+        kind: 'LATE_FEE',
+        period: `debt:${debt.id}`,
+        date: feeDate,
+        amount: rule.late_fee_type === 'FLAT' ? rule.late_fee_value : percentOf(debt.unpaid, rule.late_fee_value),
+        note: `Late fee for debt of ${debt.date} (due ${debt.due_date})`,
+      });
+    }
+  }
+
+  if (rule.interest_type !== 'NONE' && rule.monthly_rate_bp > 0) {
+    // First full month on or after the start date, up to the last month that
+    // has ended by asOf
+    const [startYear, startMonth] = rule.start_date.split('-').map(Number);
+    const [asOfYear, asOfMonth] = asOf.split('-').map(Number);
+    const first = startYear * 12 + startMonth - 1 + (rule.start_date.endsWith('-01') ? 0 : 1);
+    for (let index = first; index < asOfYear * 12 + asOfMonth - 1; index++) {
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      const monthEnd = new Date(Date.UTC(year, month, 0));
+      const endDate = `${year}-${pad(month)}-${pad(monthEnd.getUTCDate())}`;
+      const entries = [
+        ...ledger.map((row) => ({ date: row.date, effect: row.effect, isCharge: row.charge_kind !== null })),
+        ...proposals.map((p) => ({ date: p.date, effect: p.amount, isCharge: true })),
+      ].filter((entry) => entry.date <= endDate);
+      const balance = entries.reduce((sum, entry) => sum + entry.effect, 0);
+      const charges = entries.filter((entry) => entry.isCharge).reduce((sum, entry) => sum + entry.effect, 0);
+      const base = rule.interest_type === 'COMPOUND' ? balance : balance - charges;
+      propose({
+        kind: 'INTEREST',
+        period: `${year}-${pad(month)}`,
+        date: endDate,
+        amount: percentOf(Math.max(0, base), rule.monthly_rate_bp),
+        note: `Interest for ${MONTH_NAMES[month - 1]} ${year} at ${formatPercent(rule.monthly_rate_bp)}% (${
+          rule.interest_type === 'COMPOUND' ? 'compound' : 'simple'
+        }) on ${formatMoney(Math.max(0, base))}`,
+      });
+    }
+  }
+
+  return proposals.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Charges that are due but not posted, for one debtor or for everyone. Each
+// debtor uses their own rule, falling back to the global default. Creditors
+// are never charged.
+export const previewCharges = async (
+  db: SQLiteDatabase,
+  debtorId?: number,
+  asOf: string = todayString()
+): Promise<ProposedCharge[]> => {
+  if (!db) {
+    console.warn('[previewCharges] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    const debtors = await db.getAllAsync<{ id: number; name: string }>(
+      debtorId === undefined
+        ? "SELECT id, name FROM debtors WHERE kind = 'DEBTOR' AND deleted_at IS NULL ORDER BY name"
+        : "SELECT id, name FROM debtors WHERE id = ? AND kind = 'DEBTOR' AND deleted_at IS NULL",
+      debtorId === undefined ? [] : [debtorId]
+    );
+    const rules = await db.getAllAsync<ChargeRule>('SELECT * FROM charge_rules');
+    const globalRule = rules.find((rule) => rule.debtor_id === null);
+
+    const proposals: ProposedCharge[] = [];
+    for (const debtor of debtors) {
+      const rule = rules.find((r) => r.debtor_id === debtor.id) ?? globalRule;
+      if (!rule) continue;
+      proposals.push(...(await proposeForDebtor(db, debtor, rule, asOf)));
+    }
+    return proposals;
+  } catch (error: any) {
+    console.error('[previewCharges] Error computing charges:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[previewCharges] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Post previewed charges as OUT entries in one transaction. A charge whose
+// period was posted in the meantime is skipped; returns how many were posted.
+export const postCharges = async (db: SQLiteDatabase, charges: ProposedCharge[]): Promise<number> => {
+  if (!db) {
+    console.warn('[postCharges] Database is null, cannot post charges');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const now = new Date();
+      const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+      let posted = 0;
+      const touched = new Set<number>();
+      for (const charge of charges) {
+        const insert = await txn.runAsync(
+          `INSERT OR IGNORE INTO transactions (debtor_id, type, date, time, amount, note, charge_kind, charge_period)
+           VALUES (?, 'OUT', ?, ?, ?, ?, ?, ?)`,
+          [charge.debtorId, charge.date, time, charge.amount, charge.note, charge.kind, charge.period]
+        );
+        if (insert.changes === 0) continue;
+        await writeAuditEntry(txn, {
+          debtorId: charge.debtorId,
+          entity: 'TRANSACTION',
+          entityId: insert.lastInsertRowId,
+          operation: 'CREATE',
+          newValue: await txn.getFirstAsync('SELECT * FROM transactions WHERE id = ?', [insert.lastInsertRowId]),
+        });
+        await indexTransaction(txn, insert.lastInsertRowId);
+        await txn.runAsync(
+          'UPDATE debtors SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [charge.amount, charge.debtorId]
+        );
+        touched.add(charge.debtorId);
+        posted++;
+      }
+      for (const debtorId of touched) {
+        await allocateOpenPayments(txn, debtorId);
+        await unarchiveIfOwing(txn, debtorId);
+      }
+      return posted;
+    });
+  } catch (error: any) {
+    console.error('[postCharges] Error posting charges:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Post everything that is due for debtors whose rule has auto_post set. Run at
+// app start; posting is idempotent per charge period, so repeated runs are safe.
+// Each debtor's charges post on their own, so one failing debtor does not hold
+// back the rest.
+export const autoPostCharges = async (db: SQLiteDatabase): Promise<number> => {
+  if (!db) {
+    console.warn('[autoPostCharges] Database is null, cannot post charges');
+    throw new Error('Database not available');
+  }
+
+  try {
+    const rules = await db.getAllAsync<ChargeRule>('SELECT * FROM charge_rules');
+    const globalRule = rules.find((rule) => rule.debtor_id === null);
+    const dueByDebtor = new Map<number, ProposedCharge[]>();
+    for (const charge of await previewCharges(db)) {
+      const rule = rules.find((r) => r.debtor_id === charge.debtorId) ?? globalRule;
+      if (rule?.auto_post !== 1) continue;
+      dueByDebtor.set(charge.debtorId, [...(dueByDebtor.get(charge.debtorId) ?? []), charge]);
+    }
+
+    let posted = 0;
+    for (const [debtorId, charges] of dueByDebtor) {
+      try {
+        posted += await postCharges(db, charges);
+      } catch (error) {
+        console.error(`[autoPostCharges] Error posting charges for debtor ${debtorId}:`, error);
+      }
+    }
+    return posted;
+  } catch (error: any) {
+    console.error('[autoPostCharges] Error auto-posting charges:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,205 @@
+import { refreshSQLiteProvider } from '@/database/db';
+import { indexDebtor } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { CustomField, CustomFieldType } from '@/types/customField';
+import { DebtorProfile } from '@/types/debtor';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+type CustomFieldRow = {
+  id: number;
+  name: string;
+  type: CustomFieldType;
+  options: string | null;
+  position: number;
+};
+
+const toCustomField = (row: CustomFieldRow): CustomField => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  options: row.options ? JSON.parse(row.options) : [],
+  position: row.position,
+});
+
+// Loose check that catches typos, not a full RFC 5322 parser
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Why a value cannot be stored in a field, or null if it can
+export const validateCustomValue = (field: CustomField, value: string): string | null => {
+  if (field.type === 'NUMBER' && !/^-?\d+(\.\d+)?$/.test(value)) {
+    return `${field.name} must be a number`;
+  }
+  if (field.type === 'DATE' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${field.name} must be a date in the format YYYY-MM-DD`;
+  }
+  if (field.type === 'SELECT' && !field.options.includes(value)) {
+    return `${field.name} must be one of: ${field.options.join(', ')}`;
+  }
+  return null;
+};
+
+// Why a profile cannot be saved, or null if it can. Empty custom values are
+// fine; they clear the field.
+export const validateDebtorProfile = (profile: DebtorProfile, fields: CustomField[]): string | null => {
+  if (profile.email && !EMAIL_PATTERN.test(profile.email)) {
+    return 'Please enter a valid email address';
+  }
+  for (const field of fields) {
+    const value = profile.customValues[field.id]?.trim();
+    if (value) {
+      const problem = validateCustomValue(field, value);
+      if (problem) return problem;
+    }
+  }
+  return null;
+};
+
+const loadCustomFields = async (txn: SQLiteDatabase): Promise<CustomField[]> => {
+  const rows = await txn.getAllAsync<CustomFieldRow>('SELECT * FROM custom_fields ORDER BY position, id');
+  return rows.map(toCustomField);
+};
+
+// Get the custom fields in display order
+export const getCustomFields = async (db: SQLiteDatabase): Promise<CustomField[]> => {
+  if (!db) {
+    console.warn('[getCustomFields] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    return await loadCustomFields(db);
+  } catch (error: any) {
+    console.error('[getCustomFields] Error fetching custom fields:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getCustomFields] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Add a custom field at the end of the list. SELECT fields need at least one
+// option.
+export const addCustomField = async (
+  db: SQLiteDatabase,
+  name: string,
+  type: CustomFieldType,
+  options: string[] = []
+): Promise<number> => {
+  if (!db) {
+    console.warn('[addCustomField] Database is null, cannot add custom field');
+    throw new Error('Database not available');
+  }
+  const trimmedName = name.trim();
+  const choices = [...new Set(options.map((option) => option.trim()).filter(Boolean))];
+  if (!trimmedName) {
+    throw new Error('Please enter a field name');
+  }
+  if (type === 'SELECT' && choices.length === 0) {
+    throw new Error('A choice field needs at least one option');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const existing = await txn.getFirstAsync<{ id: number }>(
+        'SELECT id FROM custom_fields WHERE name = ? COLLATE NOCASE',
+        [trimmedName]
+      );
+      if (existing) {
+        throw new Error(`A field named "${trimmedName}" already exists`);
+      }
+      const result = await txn.runAsync(
+        `INSERT INTO custom_fields (name, type, options, position)
+         VALUES (?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM custom_fields))`,
+        [trimmedName, type, type === 'SELECT' ? JSON.stringify(choices) : null]
+      );
+      return result.lastInsertRowId;
+    });
+  } catch (error: any) {
+    console.error('[addCustomField] Error adding custom field:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Delete a custom field together with every debtor's value for it
+export const deleteCustomField = async (db: SQLiteDatabase, id: number): Promise<void> => {
+  if (!db) {
+    console.warn('[deleteCustomField] Database is null, cannot delete custom field');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const affected = await txn.getAllAsync<{ debtor_id: number }>(
+        'SELECT debtor_id FROM debtor_custom_values WHERE field_id = ?',
+        [id]
+      );
+      await txn.runAsync('DELETE FROM debtor_custom_values WHERE field_id = ?', [id]);
+      await txn.runAsync('DELETE FROM custom_fields WHERE id = ?', [id]);
+      for (const row of affected) {
+        await indexDebtor(txn, row.debtor_id);
+      }
+    });
+  } catch (error: any) {
+    console.error('[deleteCustomField] Error deleting custom field:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Replace a debtor's custom values inside the caller's transaction. Empty
+// values are dropped; invalid ones throw so the whole change rolls back.
+export const writeCustomValues = async (
+  txn: SQLiteDatabase,
+  debtorId: number,
+  values: Record<number, string>
+): Promise<void> => {
+  const fields = await loadCustomFields(txn);
+  await txn.runAsync('DELETE FROM debtor_custom_values WHERE debtor_id = ?', [debtorId]);
+  for (const field of fields) {
+    const value = values[field.id]?.trim();
+    if (!value) continue;
+    const problem = validateCustomValue(field, value);
+    if (problem) {
+      throw new Error(problem);
+    }
+    await txn.runAsync('INSERT INTO debtor_custom_values (debtor_id, field_id, value) VALUES (?, ?, ?)', [
+      debtorId,
+      field.id,
+      value,
+    ]);
+  }
+};
+
+// Custom values of the given debtors, or of every debtor when ids is omitted,
+// keyed by debtor id and then field id
+export const loadCustomValues = async (
+  txn: SQLiteDatabase,
+  ids?: number[]
+): Promise<Map<number, Record<number, string>>> => {
+  const rows = ids
+    ? await txn.getAllAsync<{ debtor_id: number; field_id: number; value: string }>(
+        `SELECT debtor_id, field_id, value FROM debtor_custom_values WHERE debtor_id IN (${ids.map(() => '?').join(', ')})`,
+        ids
+      )
+    : await txn.getAllAsync<{ debtor_id: number; field_id: number; value: string }>(
+        'SELECT debtor_id, field_id, value FROM debtor_custom_values'
+      );
+  const byDebtor = new Map<number, Record<number, string>>();
+  for (const row of rows) {
+    const values = byDebtor.get(row.debtor_id) ?? {};
+    values[row.field_id] = row.value;
+    byDebtor.set(row.debtor_id, values);
+  }
+  return byDebtor;
+};
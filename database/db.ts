@@ -1,3 +1,4 @@
+import { runMigrations } from '@/database/migrations';
 import type { SQLiteDatabase } from 'expo-sqlite';
 
 // Toggle verbose DB logging via Expo env: set EXPO_PUBLIC_DB_DEBUG=true
@@ -7,57 +8,10 @@ function dbg(...args: any[]) {
   if (DB_DEBUG) console.log('[DB]', ...args);
 }
 
+// Schema changes live in database/migrations.ts and are shared by every platform
 export async function migrateDbIfNeeded(db: SQLiteDatabase) {
-  const DATABASE_VERSION = 2;
   dbg('migrateDbIfNeeded: start');
-  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
-  let currentDbVersion = result?.user_version ?? 0;
-  dbg('migrateDbIfNeeded: current version =', currentDbVersion);
-  if (currentDbVersion >= DATABASE_VERSION) {
-    dbg('migrateDbIfNeeded: up-to-date, skipping');
-    return;
-  }
-  if (currentDbVersion === 0) {
-    dbg('migrateDbIfNeeded: applying v1 schema');
-    await db.execAsync(`
-      PRAGMA journal_mode = 'wal';
-      PRAGMA foreign_keys = ON;
-      CREATE TABLE debtors (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        balance REAL DEFAULT 0,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-      CREATE TABLE phone_numbers (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        debtor_id INTEGER NOT NULL,
-        phone_number TEXT NOT NULL,
-        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_debtor_id ON phone_numbers(debtor_id);
-    `);
-    currentDbVersion = 1;
-  }
-  if (currentDbVersion === 1) {
-    dbg('migrateDbIfNeeded: applying v2 schema');
-    await db.execAsync(`
-      CREATE TABLE transactions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        debtor_id INTEGER NOT NULL,
-        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT')),
-        date TEXT NOT NULL,
-        time TEXT NOT NULL,
-        amount REAL NOT NULL,
-        note TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
-      );
-      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
-    `);
-  }
-  await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
-  dbg('migrateDbIfNeeded: completed, set user_version =', DATABASE_VERSION);
+  await runMigrations(db, (...args: any[]) => dbg('migrateDbIfNeeded:', ...args));
 }
 export { SQLiteProvider as getSQLiteProviderShim, useSQLiteContext } from 'expo-sqlite';
 // Provide a function to mirror web helper API
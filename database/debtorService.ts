@@ -1,112 +1,199 @@
-// Add a transaction (debt or received payment)
-export const addTransaction = async (
+import { auditDebtorChange, snapshotDebtor, writeAuditEntry } from '@/database/auditService';
+import { loadCustomValues, writeCustomValues } from '@/database/customFieldService';
+import { refreshSQLiteProvider } from '@/database/db';
+import { balanceEffectSql, overdueByDebtorSql, unpaidChargesSql } from '@/database/ledgerSql';
+import { getDefaultCountry, loadPhoneNumbers, writePhoneNumbers } from '@/database/phoneService';
+import { indexDebtor } from '@/database/searchService';
+import { getSetting, setSetting } from '@/database/settingsService';
+import { runInTransaction } from '@/database/transactionRunner';
+import {
+  CounterpartyKind,
+  Debtor,
+  DebtorCursor,
+  DebtorListQuery,
+  DebtorListView,
+  DebtorPage,
+  DebtorProfile,
+  DebtorSort,
+} from '@/types/debtor';
+import { PhoneNumber } from '@/types/phone';
+import {
+  MonthTotal,
+  TimelineEntry,
+  TransactionCursor,
+  TransactionFilter,
+  TransactionPage,
+} from '@/types/transaction';
+import { MinorUnits } from '@/utils/money';
+import { normalizePhone } from '@/utils/phone';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export const TRANSACTION_PAGE_SIZE = 50;
+
+// WHERE clause and params for a debtor's transactions narrowed by a filter
+const transactionWhere = (debtorId: number, filter: TransactionFilter): { sql: string; params: (string | number)[] } => {
+  const clauses = ['t.debtor_id = ?'];
+  const params: (string | number)[] = [debtorId];
+  if (filter.type) {
+    clauses.push('t.type = ?');
+    params.push(filter.type);
+  }
+  if (filter.fromDate) {
+    clauses.push('t.date >= ?');
+    params.push(filter.fromDate);
+  }
+  if (filter.toDate) {
+    clauses.push('t.date <= ?');
+    params.push(filter.toDate);
+  }
+  if (filter.minAmount != null) {
+    clauses.push('ABS(t.amount) >= ?');
+    params.push(filter.minAmount);
+  }
+  if (filter.maxAmount != null) {
+    clauses.push('ABS(t.amount) <= ?');
+    params.push(filter.maxAmount);
+  }
+  const note = filter.noteQuery?.trim();
+  if (note) {
+    clauses.push("t.note LIKE ? ESCAPE '\\'");
+    params.push(`%${note.replaceAll(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  }
+  return { sql: clauses.join(' AND '), params };
+};
+
+// One page of a debtor's transactions, newest first with the opening balance
+// last, each with the running balance after it. Pass the returned `next` to get the page after; it is null on the
+// last page.
+export const getTransactionsPage = async (
   db: SQLiteDatabase,
   debtorId: number,
-  type: 'IN' | 'OUT',
-  date: string,
-  time: string,
-  amount: number,
-  note?: string
-): Promise<number> => {
+  filter: TransactionFilter = {},
+  after: TransactionCursor | null = null,
+  limit: number = TRANSACTION_PAGE_SIZE
+): Promise<TransactionPage> => {
   if (!db) {
-    console.warn('[addTransaction] Database is null, cannot add transaction');
-    throw new Error('Database not available');
+    console.warn('[getTransactionsPage] Database is null, returning empty page');
+    return { transactions: [], next: null };
   }
-  
+
   try {
-    const stmt = await db.prepareAsync(
-      'INSERT INTO transactions (debtor_id, type, date, time, amount, note) VALUES (?, ?, ?, ?, ?, ?)'
-    );
-    try {
-      const result = await stmt.executeAsync([
-        debtorId,
-        type,
-        date,
-        time,
-        amount,
-        note ?? null
-      ]);
-      return result.lastInsertRowId;
-    } finally {
-      await stmt.finalizeAsync();
+    const where = transactionWhere(debtorId, filter);
+    // The running balance is summed over the whole ledger before the filter
+    // applies, so hidden entries still count towards it
+    const ledger = `SELECT t.*, SUM(${balanceEffectSql('t')}) OVER (
+                      ORDER BY (t.type != 'OPENING'), t.date, t.time, t.id ROWS UNBOUNDED PRECEDING
+                    ) AS balance_after
+                    FROM transactions t WHERE t.debtor_id = ?`;
+    const params: (string | number)[] = [debtorId, ...where.params];
+    let sql = `SELECT * FROM (${ledger}) t WHERE ${where.sql}`;
+    // Every sort key descends, so the position compares as one row value
+    const position = "(t.type != 'OPENING', t.date, t.time, t.id)";
+    if (after) {
+      sql += ` AND ${position} < (?, ?, ?, ?)`;
+      params.push(after.opening ? 0 : 1, after.date, after.time, after.id);
     }
+    // One extra row tells whether there is another page
+    sql += " ORDER BY (t.type != 'OPENING') DESC, t.date DESC, t.time DESC, t.id DESC LIMIT ?";
+    params.push(limit + 1);
+
+    const rows = await db.getAllAsync<TimelineEntry>(sql, params);
+    const transactions = rows.slice(0, limit);
+    const last = transactions[transactions.length - 1];
+    return {
+      transactions,
+      next:
+        rows.length > limit
+          ? { opening: last.type === 'OPENING', date: last.date, time: last.time, id: last.id }
+          : null,
+    };
   } catch (error: any) {
-    console.error('[addTransaction] Error adding transaction:', error);
-    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
-      throw new Error('Database not available. Please try again.');
+    console.error('[getTransactionsPage] Error fetching transactions:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getTransactionsPage] refreshSQLiteProvider failed:', e);
+      }
+      return { transactions: [], next: null };
     }
     throw error;
   }
 };
 
-// Get all transactions for a debtor, optionally filtered by type
-export const getTransactionsForDebtor = async (
+// Per-month totals of the transactions a filter matches, newest month first.
+// These cover the whole month even when only part of it has been paged in.
+export const getMonthlyTotals = async (
   db: SQLiteDatabase,
   debtorId: number,
-  type?: 'IN' | 'OUT'
-): Promise<Array<{
-  id: number;
-  type: 'IN' | 'OUT';
-  date: string;
-  time: string;
-  amount: number;
-  note: string | null;
-  created_at: string;
-}>> => {
+  filter: TransactionFilter = {}
+): Promise<MonthTotal[]> => {
   if (!db) {
-    console.warn('[getTransactionsForDebtor] Database is null, returning empty array');
+    console.warn('[getMonthlyTotals] Database is null, returning empty array');
     return [];
   }
-  
+
   try {
-    let query = 'SELECT * FROM transactions WHERE debtor_id = ?';
-    const params: any[] = [debtorId];
-    if (type) {
-      query += ' AND type = ?';
-      params.push(type);
-    }
-    query += ' ORDER BY date DESC, time DESC';
-    const stmt = await db.prepareAsync(query);
-    try {
-      const result = await stmt.executeAsync(params);
-      return await result.getAllAsync() as Array<{
-        id: number;
-        type: 'IN' | 'OUT';
-        date: string;
-        time: string;
-        amount: number;
-        note: string | null;
-        created_at: string;
-      }>;
-    } finally {
-      await stmt.finalizeAsync();
-    }
+    const where = transactionWhere(debtorId, filter);
+    const effect = balanceEffectSql('t');
+    return await db.getAllAsync<MonthTotal>(
+      `SELECT substr(t.date, 1, 7) AS month, COUNT(*) AS count,
+              SUM(CASE WHEN ${effect} > 0 THEN ${effect} ELSE 0 END) AS raised,
+              SUM(CASE WHEN ${effect} < 0 THEN -(${effect}) ELSE 0 END) AS lowered
+       FROM transactions t
+       WHERE ${where.sql}
+       GROUP BY month
+       ORDER BY month DESC`,
+      where.params
+    );
   } catch (error: any) {
-    console.error('[getTransactionsForDebtor] Error fetching transactions:', error);
+    console.error('[getMonthlyTotals] Error fetching monthly totals:', error);
     const msg = String(error?.message ?? error);
     if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
-      console.warn('[getTransactionsForDebtor] Database not available, requesting provider refresh');
       try {
         await refreshSQLiteProvider();
-        console.log('[getTransactionsForDebtor] refreshSQLiteProvider resolved');
       } catch (e) {
-        console.warn('[getTransactionsForDebtor] refreshSQLiteProvider failed:', e);
+        console.warn('[getMonthlyTotals] refreshSQLiteProvider failed:', e);
       }
       return [];
     }
     throw error;
   }
 };
-import { refreshSQLiteProvider } from '@/database/db';
-import { Debtor } from '@/types/debtor';
-import type { SQLiteDatabase } from 'expo-sqlite';
 
-// Add a new debtor with phone numbers using prepared statements
+export const EMPTY_PROFILE: DebtorProfile = {
+  address: null,
+  email: null,
+  notes: null,
+  nationalId: null,
+  customValues: {},
+};
+
+// The profile part of a debtor, for filling in the profile editor
+export const profileOf = (debtor: Debtor): DebtorProfile => ({
+  address: debtor.address ?? null,
+  email: debtor.email ?? null,
+  notes: debtor.notes ?? null,
+  nationalId: debtor.nationalId ?? null,
+  customValues: debtor.customValues ?? {},
+});
+
+// Optional profile text is stored trimmed, with blanks as NULL
+const cleanText = (value: string | null | undefined): string | null => value?.trim() || null;
+
+// Add a new debtor with phone numbers using prepared statements. A non-zero
+// opening balance is recorded as an OPENING transaction dated `openingDate`
+// so the debtor's history explains where the amount came from. Pass
+// kind = 'CREDITOR' for someone we owe; their balance is what we owe them.
 export const addDebtor = async (
   db: SQLiteDatabase,
   name: string,
-  phoneNumbers: string[],
-  balance: number = 0
+  phones: PhoneNumber[],
+  openingBalance: MinorUnits = 0,
+  openingDate?: string,
+  kind: CounterpartyKind = 'DEBTOR',
+  profile?: DebtorProfile
 ): Promise<number> => {
   if (!db) {
     console.warn('[addDebtor] Database is null, cannot add debtor');
@@ -114,32 +201,47 @@ export const addDebtor = async (
   }
   
   try {
-    // Use prepared statement for inserting debtor
-    const insertDebtorStmt = await db.prepareAsync(
-      'INSERT INTO debtors (name, balance) VALUES (?, ?)'
-    );
-    
-    try {
-      const result = await insertDebtorStmt.executeAsync([name, balance]);
-      const debtorId = result.lastInsertRowId;
-
-      // Use prepared statement for inserting phone numbers
-      const insertPhoneStmt = await db.prepareAsync(
-        'INSERT INTO phone_numbers (debtor_id, phone_number) VALUES (?, ?)'
+    return await runInTransaction(db, async (txn) => {
+      // Use prepared statement for inserting debtor
+      const insertDebtorStmt = await txn.prepareAsync(
+        'INSERT INTO debtors (name, balance, kind, address, email, notes, national_id) VALUES (?, ?, ?, ?, ?, ?, ?)'
       );
       
       try {
-        for (const phoneNumber of phoneNumbers) {
-          await insertPhoneStmt.executeAsync([debtorId, phoneNumber]);
+        const result = await insertDebtorStmt.executeAsync([
+          name,
+          openingBalance,
+          kind,
+          cleanText(profile?.address),
+          cleanText(profile?.email),
+          cleanText(profile?.notes),
+          cleanText(profile?.nationalId),
+        ]);
+        const debtorId = result.lastInsertRowId;
+        if (profile) {
+          await writeCustomValues(txn, debtorId, profile.customValues);
         }
+
+        await writePhoneNumbers(txn, debtorId, phones);
+
+        if (openingBalance !== 0) {
+          const now = new Date();
+          const pad = (n: number) => String(n).padStart(2, '0');
+          const date = openingDate ?? `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+          const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+          await txn.runAsync(
+            'INSERT INTO transactions (debtor_id, type, date, time, amount, note) VALUES (?, ?, ?, ?, ?, ?)',
+            [debtorId, 'OPENING', date, time, openingBalance, 'Opening balance']
+          );
+        }
+
+        await auditDebtorChange(txn, debtorId, 'CREATE', null);
+        await indexDebtor(txn, debtorId);
+        return debtorId;
       } finally {
-        await insertPhoneStmt.finalizeAsync();
+        await insertDebtorStmt.finalizeAsync();
       }
-
-      return debtorId;
-    } finally {
-      await insertDebtorStmt.finalizeAsync();
-    }
+    });
   } catch (error: any) {
     console.error('[addDebtor] Error adding debtor:', error);
     if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
@@ -149,7 +251,55 @@ export const addDebtor = async (
   }
 };
 
-// Get all debtors with their phone numbers using prepared statements
+type DebtorRow = {
+  id: number;
+  name: string;
+  kind: CounterpartyKind;
+  balance: number;
+  overdue_amount: number;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  archived_at: string | null;
+  address: string | null;
+  email: string | null;
+  notes: string | null;
+  national_id: string | null;
+};
+
+// Debtor rows with their overdue amount; callers add WHERE and ORDER BY
+const DEBTOR_SELECT_SQL = `SELECT d.*, COALESCE(o.overdue_amount, 0) AS overdue_amount
+  FROM debtors d
+  LEFT JOIN (${overdueByDebtorSql()}) o ON o.debtor_id = d.id`;
+
+const toDebtor = (row: DebtorRow, phones: PhoneNumber[], customValues: Record<number, string>): Debtor => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind,
+  phoneNumbers: phones.map((phone) => phone.number),
+  phones,
+  balance: row.balance,
+  overdueAmount: row.overdue_amount,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  deletedAt: row.deleted_at,
+  archivedAt: row.archived_at,
+  address: row.address,
+  email: row.email,
+  notes: row.notes,
+  nationalId: row.national_id,
+  customValues,
+});
+
+// Attach phones and custom values to debtor rows with one query each. ids
+// limits the lookups to those debtors; leave it out when rows is everyone.
+const withDetails = async (db: SQLiteDatabase, rows: DebtorRow[], ids?: number[]): Promise<Debtor[]> => {
+  const phones = await loadPhoneNumbers(db, ids);
+  const customValues = await loadCustomValues(db, ids);
+  return rows.map((row) => toDebtor(row, phones.get(row.id) ?? [], customValues.get(row.id) ?? {}));
+};
+
+// Get all debtors not in the trash, with their phone numbers, by name
 export const getAllDebtors = async (db: SQLiteDatabase): Promise<Debtor[]> => {
   // Check if DB is accessible before attempting query
   if (!db) {
@@ -158,49 +308,8 @@ export const getAllDebtors = async (db: SQLiteDatabase): Promise<Debtor[]> => {
   }
 
   try {
-    const debtorsStmt = await db.prepareAsync(
-      'SELECT * FROM debtors ORDER BY name ASC'
-    );
-    
-    try {
-      const result = await debtorsStmt.executeAsync();
-      const debtors = await result.getAllAsync() as {
-        id: number;
-        name: string;
-        balance: number;
-        created_at: string;
-        updated_at: string;
-      }[];
-
-      // Prepare statement for fetching phone numbers
-      const phonesStmt = await db.prepareAsync(
-        'SELECT phone_number FROM phone_numbers WHERE debtor_id = ?'
-      );
-
-      try {
-        // Fetch phone numbers for each debtor sequentially to avoid reuse issues
-        const debtorsWithPhones: Debtor[] = [];
-        for (const debtor of debtors) {
-          const phoneResult = await phonesStmt.executeAsync([debtor.id]);
-          const phones = await phoneResult.getAllAsync() as { phone_number: string }[];
-
-          debtorsWithPhones.push({
-            id: debtor.id,
-            name: debtor.name,
-            phoneNumbers: phones.map(p => p.phone_number),
-            balance: debtor.balance,
-            createdAt: debtor.created_at,
-            updatedAt: debtor.updated_at,
-          });
-        }
-
-        return debtorsWithPhones;
-      } finally {
-        await phonesStmt.finalizeAsync();
-      }
-    } finally {
-      await debtorsStmt.finalizeAsync();
-    }
+    const rows = await db.getAllAsync<DebtorRow>(`${DEBTOR_SELECT_SQL} WHERE d.deleted_at IS NULL ORDER BY d.name ASC`);
+    return await withDetails(db, rows);
   } catch (error: any) {
     console.error('[getAllDebtors] Error fetching debtors:', error);
     const msg = String(error?.message ?? error);
@@ -218,6 +327,171 @@ export const getAllDebtors = async (db: SQLiteDatabase): Promise<Debtor[]> => {
   }
 };
 
+export const DEBTOR_PAGE_SIZE = 30;
+
+// Figures of the debtor d that the list filters or sorts on, as correlated
+// subqueries so that only the debtors a query reaches are aggregated, through
+// idx_transactions_debtor_id. A debtor without transactions was last active
+// when added.
+const OVERDUE_SQL = `COALESCE((SELECT o.overdue_amount FROM (${overdueByDebtorSql('t.debtor_id = d.id')}) o), 0)`;
+const LAST_ACTIVITY_SQL = `COALESCE(
+  (SELECT MAX(a.date || ' ' || a.time) FROM transactions a WHERE a.debtor_id = d.id), d.created_at
+)`;
+const OLDEST_DEBT_SQL = `(
+  SELECT MIN(t.date) FROM (${unpaidChargesSql('t.debtor_id = d.id')}) u
+  JOIN transactions t ON t.id = u.id
+  WHERE u.unpaid > 0
+)`;
+
+// Sort keys never compare NULL, so a page boundary is always well defined
+const SORT_SQL: Record<DebtorSort, { column: string; descending: boolean }> = {
+  BALANCE_DESC: { column: 'd.balance', descending: true },
+  BALANCE_ASC: { column: 'd.balance', descending: false },
+  NAME: { column: 'd.name COLLATE NOCASE', descending: false },
+  LAST_ACTIVITY: { column: LAST_ACTIVITY_SQL, descending: true },
+  OLDEST_DEBT: { column: `COALESCE(${OLDEST_DEBT_SQL}, '9999-12-31')`, descending: false },
+  CREATED: { column: 'd.created_at', descending: true },
+};
+
+// WHERE clause and params for the debtors a list query covers
+const listWhere = (query: DebtorListQuery): { sql: string; params: (string | number)[] } => {
+  const clauses = ['d.deleted_at IS NULL'];
+  const params: (string | number)[] = [];
+  if (query.filter === 'ARCHIVED') {
+    clauses.push('d.archived_at IS NOT NULL');
+  } else {
+    clauses.push('d.archived_at IS NULL');
+    if (query.filter !== 'ALL') {
+      clauses.push('d.kind = ?');
+      params.push(query.filter);
+    }
+  }
+  const options = query.options ?? {};
+  if (options.minBalance != null) {
+    clauses.push('d.balance >= ?');
+    params.push(options.minBalance);
+  }
+  if (options.maxBalance != null) {
+    clauses.push('d.balance <= ?');
+    params.push(options.maxBalance);
+  }
+  if (options.balanceState === 'ZERO') {
+    clauses.push('d.balance = 0');
+  } else if (options.balanceState === 'NONZERO') {
+    clauses.push('d.balance != 0');
+  }
+  if (options.inactiveDays) {
+    clauses.push(`substr(${LAST_ACTIVITY_SQL}, 1, 10) <= date('now', 'localtime', ?)`);
+    params.push(`-${options.inactiveDays} days`);
+  }
+  if (options.overdueOnly) {
+    clauses.push(`${OVERDUE_SQL} > 0`);
+  }
+  if (query.ids) {
+    clauses.push(`d.id IN (${query.ids.map(() => '?').join(', ')})`);
+    params.push(...query.ids);
+  }
+  return { sql: clauses.join(' AND '), params };
+};
+
+// One page of a filtered, sorted debtor list. Pages are keyed on the last
+// debtor of the previous page (sort value, then id), so rows added or removed
+// meanwhile do not shift later pages. Pass the returned `next` to get the
+// page after; it is null on the last page. The keyset and LIMIT apply to the
+// debtors table itself, and overdue amounts are only worked out for the page.
+export const getDebtorsPage = async (
+  db: SQLiteDatabase,
+  query: DebtorListQuery,
+  after: DebtorCursor | null = null,
+  limit: number = DEBTOR_PAGE_SIZE
+): Promise<DebtorPage> => {
+  if (!db) {
+    console.warn('[getDebtorsPage] Database connection is null or undefined');
+    return { debtors: [], total: 0, next: null };
+  }
+  if (query.ids?.length === 0) {
+    return { debtors: [], total: 0, next: null };
+  }
+
+  try {
+    const where = listWhere(query);
+    const { column, descending } = SORT_SQL[query.sort];
+    let sql = `SELECT d.*, ${column} AS sort_value FROM debtors d WHERE ${where.sql}`;
+    const params = [...where.params];
+    if (after) {
+      sql += ` AND (${column} ${descending ? '<' : '>'} ? OR (${column} = ? AND d.id > ?))`;
+      params.push(after.value, after.value, after.id);
+    }
+    // One extra row tells whether there is another page
+    sql += ` ORDER BY ${column} ${descending ? 'DESC' : 'ASC'}, d.id ASC LIMIT ?`;
+    params.push(limit + 1);
+
+    const rows = await db.getAllAsync<Omit<DebtorRow, 'overdue_amount'> & { sort_value: number | string }>(
+      sql,
+      params
+    );
+    const page = rows.slice(0, limit);
+    const pageIds = page.map((row) => row.id);
+    const overdue = pageIds.length
+      ? await db.getAllAsync<{ id: number; overdue_amount: number }>(
+          `SELECT d.id, ${OVERDUE_SQL} AS overdue_amount FROM debtors d
+           WHERE d.id IN (${pageIds.map(() => '?').join(', ')})`,
+          pageIds
+        )
+      : [];
+    const overdueById = new Map(overdue.map((row) => [row.id, row.overdue_amount]));
+    const pageRows = page.map((row) => ({ ...row, overdue_amount: overdueById.get(row.id) ?? 0 }));
+    const total = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM debtors d WHERE ${where.sql}`,
+      where.params
+    );
+    const last = pageRows[pageRows.length - 1];
+    return {
+      debtors: await withDetails(db, pageRows, pageIds),
+      total: total?.count ?? 0,
+      next: rows.length > limit ? { value: last.sort_value, id: last.id } : null,
+    };
+  } catch (error: any) {
+    console.error('[getDebtorsPage] Error fetching debtors:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getDebtorsPage] refreshSQLiteProvider failed:', e);
+      }
+      return { debtors: [], total: 0, next: null };
+    }
+    throw error;
+  }
+};
+
+const LIST_VIEW_SETTING = 'debtor_list_view';
+
+export const DEFAULT_DEBTOR_LIST_VIEW: DebtorListView = { filter: 'ALL', sort: 'BALANCE_DESC', options: {} };
+
+// The Debtors tab's last filters and sort. A saved view that no longer reads
+// falls back to the default.
+export const getDebtorListView = async (db: SQLiteDatabase): Promise<DebtorListView> => {
+  const saved = await getSetting(db, LIST_VIEW_SETTING);
+  if (!saved) return DEFAULT_DEBTOR_LIST_VIEW;
+  try {
+    const view = JSON.parse(saved) as Partial<DebtorListView>;
+    return {
+      filter: view.filter ?? DEFAULT_DEBTOR_LIST_VIEW.filter,
+      sort: view.sort && view.sort in SORT_SQL ? view.sort : DEFAULT_DEBTOR_LIST_VIEW.sort,
+      options: view.options ?? {},
+    };
+  } catch (error) {
+    console.warn('[getDebtorListView] Ignoring unreadable saved view:', error);
+    return DEFAULT_DEBTOR_LIST_VIEW;
+  }
+};
+
+export const saveDebtorListView = async (db: SQLiteDatabase, view: DebtorListView): Promise<void> => {
+  await setSetting(db, LIST_VIEW_SETTING, JSON.stringify(view));
+};
+
 // Get a single debtor by ID using prepared statements
 export const getDebtorById = async (
   db: SQLiteDatabase,
@@ -230,44 +504,10 @@ export const getDebtorById = async (
       return null;
     }
 
-    const debtorStmt = await db.prepareAsync(
-      'SELECT * FROM debtors WHERE id = ?'
-    );
-    
-    try {
-      const result = await debtorStmt.executeAsync([id]);
-      const debtor = await result.getFirstAsync() as {
-        id: number;
-        name: string;
-        balance: number;
-        created_at: string;
-        updated_at: string;
-      } | null;
-
-      if (!debtor) return null;
-
-      const phonesStmt = await db.prepareAsync(
-        'SELECT phone_number FROM phone_numbers WHERE debtor_id = ?'
-      );
-      
-      try {
-        const phoneResult = await phonesStmt.executeAsync([id]);
-        const phones = await phoneResult.getAllAsync() as { phone_number: string }[];
-
-        return {
-          id: debtor.id,
-          name: debtor.name,
-          phoneNumbers: phones.map(p => p.phone_number),
-          balance: debtor.balance,
-          createdAt: debtor.created_at,
-          updatedAt: debtor.updated_at,
-        };
-      } finally {
-        await phonesStmt.finalizeAsync();
-      }
-    } finally {
-      await debtorStmt.finalizeAsync();
-    }
+    const row = await db.getFirstAsync<DebtorRow>(`${DEBTOR_SELECT_SQL} WHERE d.id = ?`, [id]);
+    if (!row) return null;
+    const [debtor] = await withDetails(db, [row], [id]);
+    return debtor;
   } catch (error: any) {
     console.error('[getDebtorById] Error fetching debtor:', error);
     const msg = String(error?.message ?? error);
@@ -290,8 +530,7 @@ export const updateDebtor = async (
   db: SQLiteDatabase,
   id: number,
   name: string,
-  phoneNumbers: string[],
-  balance: number
+  phones: PhoneNumber[]
 ): Promise<void> => {
   if (!db) {
     console.warn('[updateDebtor] Database is null, cannot update debtor');
@@ -299,40 +538,25 @@ export const updateDebtor = async (
   }
   
   try {
-    // Update debtor using prepared statement
-    const updateStmt = await db.prepareAsync(
-      'UPDATE debtors SET name = ?, balance = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
-    );
-    
-    try {
-      await updateStmt.executeAsync([name, balance, id]);
-    } finally {
-      await updateStmt.finalizeAsync();
-    }
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
 
-    // Delete existing phone numbers
-    const deleteStmt = await db.prepareAsync(
-      'DELETE FROM phone_numbers WHERE debtor_id = ?'
-    );
-    
-    try {
-      await deleteStmt.executeAsync([id]);
-    } finally {
-      await deleteStmt.finalizeAsync();
-    }
+      // Update debtor using prepared statement
+      const updateStmt = await txn.prepareAsync(
+        'UPDATE debtors SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+      );
 
-    // Insert new phone numbers
-    const insertStmt = await db.prepareAsync(
-      'INSERT INTO phone_numbers (debtor_id, phone_number) VALUES (?, ?)'
-    );
-    
-    try {
-      for (const phoneNumber of phoneNumbers) {
-        await insertStmt.executeAsync([id, phoneNumber]);
+      try {
+        await updateStmt.executeAsync([name, id]);
+      } finally {
+        await updateStmt.finalizeAsync();
       }
-    } finally {
-      await insertStmt.finalizeAsync();
-    }
+
+      await writePhoneNumbers(txn, id, phones);
+
+      await auditDebtorChange(txn, id, 'UPDATE', before);
+      await indexDebtor(txn, id);
+    });
   } catch (error: any) {
     console.error('[updateDebtor] Error updating debtor:', error);
     if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
@@ -342,25 +566,31 @@ export const updateDebtor = async (
   }
 };
 
-// Delete a debtor using prepared statements (cascade will delete phone numbers automatically)
-export const deleteDebtor = async (
+// Replace a debtor's address, email, notes, ID number and custom field values
+export const updateDebtorProfile = async (
   db: SQLiteDatabase,
-  id: number
+  id: number,
+  profile: DebtorProfile
 ): Promise<void> => {
   if (!db) {
-    console.warn('[deleteDebtor] Database is null, cannot delete debtor');
+    console.warn('[updateDebtorProfile] Database is null, cannot update profile');
     throw new Error('Database not available');
   }
-  
+
   try {
-    const stmt = await db.prepareAsync('DELETE FROM debtors WHERE id = ?');
-    try {
-      await stmt.executeAsync([id]);
-    } finally {
-      await stmt.finalizeAsync();
-    }
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
+      await txn.runAsync(
+        `UPDATE debtors SET address = ?, email = ?, notes = ?, national_id = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [cleanText(profile.address), cleanText(profile.email), cleanText(profile.notes), cleanText(profile.nationalId), id]
+      );
+      await writeCustomValues(txn, id, profile.customValues);
+      await auditDebtorChange(txn, id, 'UPDATE', before);
+      await indexDebtor(txn, id);
+    });
   } catch (error: any) {
-    console.error('[deleteDebtor] Error deleting debtor:', error);
+    console.error('[updateDebtorProfile] Error updating profile:', error);
     if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
       throw new Error('Database not available. Please try again.');
     }
@@ -368,28 +598,73 @@ export const deleteDebtor = async (
   }
 };
 
-// Update debtor balance using prepared statements
-export const updateDebtorBalance = async (
+// Convert numbers stored as typed to E.164 using the default country. Numbers
+// that do not parse are left alone. Each debtor whose numbers change gets an
+// UPDATE entry in their history, marked as the app's own so it is not offered
+// for undo. Run at app start; returns how many changed.
+export const normalizeStoredPhoneNumbers = async (db: SQLiteDatabase): Promise<number> => {
+  const country = await getDefaultCountry(db);
+  return runInTransaction(db, async (txn) => {
+    const rows = await txn.getAllAsync<{ id: number; debtor_id: number; phone_number: string }>(
+      "SELECT id, debtor_id, phone_number FROM phone_numbers WHERE phone_number NOT LIKE '+%' ORDER BY debtor_id"
+    );
+    const updatesByDebtor = new Map<number, { id: number; normalized: string }[]>();
+    for (const row of rows) {
+      const normalized = normalizePhone(row.phone_number, country);
+      if (normalized) {
+        updatesByDebtor.set(row.debtor_id, [...(updatesByDebtor.get(row.debtor_id) ?? []), { id: row.id, normalized }]);
+      }
+    }
+
+    let changed = 0;
+    for (const [debtorId, updates] of updatesByDebtor) {
+      const before = await snapshotDebtor(txn, debtorId);
+      for (const update of updates) {
+        await txn.runAsync('UPDATE phone_numbers SET phone_number = ? WHERE id = ?', [update.normalized, update.id]);
+        changed++;
+      }
+      await writeAuditEntry(txn, {
+        debtorId,
+        entity: 'DEBTOR',
+        entityId: debtorId,
+        operation: 'UPDATE',
+        oldValue: before,
+        newValue: await snapshotDebtor(txn, debtorId),
+        system: true,
+      });
+      await indexDebtor(txn, debtorId);
+    }
+    return changed;
+  });
+};
+
+// Move a debtor to the trash. Their phones and transactions stay attached so
+// restoreDebtor can bring everything back; purgeDebtor (see
+// database/trashService) deletes them for good.
+export const deleteDebtor = async (
   db: SQLiteDatabase,
-  id: number,
-  newBalance: number
+  id: number
 ): Promise<void> => {
   if (!db) {
-    console.warn('[updateDebtorBalance] Database is null, cannot update balance');
+    console.warn('[deleteDebtor] Database is null, cannot delete debtor');
     throw new Error('Database not available');
   }
   
   try {
-    const stmt = await db.prepareAsync(
-      'UPDATE debtors SET balance = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
-    );
-    try {
-      await stmt.executeAsync([newBalance, id]);
-    } finally {
-      await stmt.finalizeAsync();
-    }
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
+      const stmt = await txn.prepareAsync(
+        'UPDATE debtors SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL'
+      );
+      try {
+        await stmt.executeAsync([id]);
+      } finally {
+        await stmt.finalizeAsync();
+      }
+      await auditDebtorChange(txn, id, 'DELETE', before);
+    });
   } catch (error: any) {
-    console.error('[updateDebtorBalance] Error updating balance:', error);
+    console.error('[deleteDebtor] Error deleting debtor:', error);
     if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
       throw new Error('Database not available. Please try again.');
     }
@@ -402,59 +677,114 @@ export const getStatistics = async (
   db: SQLiteDatabase
 ): Promise<{
   totalBalance: number;
+  totalReceivable: number;
+  totalPayable: number;
   totalIn: number;
   totalOut: number;
+  totalWaived: number;
+  totalWrittenOff: number;
+  overdueTotal: number;
 }> => {
   try {
     // Check if DB is accessible before attempting query
     if (!db) {
       console.warn('[getStatistics] Database connection is null or undefined');
-      return { totalBalance: 0, totalIn: 0, totalOut: 0 };
+      return { totalBalance: 0, totalReceivable: 0, totalPayable: 0, totalIn: 0, totalOut: 0, totalWaived: 0, totalWrittenOff: 0, overdueTotal: 0 };
     }
 
-    // Get total balance from all debtors
+    // Get what debtors owe us and what we owe creditors; the net position is
+    // receivable minus payable
     const balanceStmt = await db.prepareAsync(
-      'SELECT COALESCE(SUM(balance), 0) as total FROM debtors'
+      `SELECT COALESCE(SUM(CASE kind WHEN 'DEBTOR' THEN balance ELSE 0 END), 0) as receivable,
+              COALESCE(SUM(CASE kind WHEN 'CREDITOR' THEN balance ELSE 0 END), 0) as payable
+       FROM debtors WHERE deleted_at IS NULL`
     );
-    let totalBalance = 0;
+    let totalReceivable = 0;
+    let totalPayable = 0;
     try {
       const balanceResult = await balanceStmt.executeAsync();
-      const balanceData = await balanceResult.getFirstAsync() as { total: number } | null;
-      totalBalance = balanceData?.total ?? 0;
+      const balanceData = await balanceResult.getFirstAsync() as { receivable: number; payable: number } | null;
+      totalReceivable = balanceData?.receivable ?? 0;
+      totalPayable = balanceData?.payable ?? 0;
     } finally {
       await balanceStmt.finalizeAsync();
     }
+    const totalBalance = totalReceivable - totalPayable;
+
+    // The remaining totals cover debtors only, leaving out the trash. They are
+    // split by the sign of each entry's balance effect so opening balances and
+    // adjustments are counted too. Waivers and write-offs are kept out of totalIn, so
+    // totalOut - totalIn - totalWaived - totalWrittenOff equals totalReceivable.
+    const debtorLedger =
+      "transactions t JOIN debtors d ON d.id = t.debtor_id AND d.kind = 'DEBTOR' AND d.deleted_at IS NULL";
 
-    // Get total IN transactions
+    // Get total IN transactions (everything else that lowered balances)
     const inStmt = await db.prepareAsync(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM transactions WHERE type = ?'
+      `SELECT COALESCE(SUM(-(${balanceEffectSql('t')})), 0) as total FROM ${debtorLedger}
+       WHERE (${balanceEffectSql('t')}) < 0 AND t.type NOT IN ('WAIVER', 'WRITE_OFF')`
     );
     let totalIn = 0;
     try {
-      const inResult = await inStmt.executeAsync(['IN']);
+      const inResult = await inStmt.executeAsync();
       const inData = await inResult.getFirstAsync() as { total: number } | null;
       totalIn = inData?.total ?? 0;
     } finally {
       await inStmt.finalizeAsync();
     }
 
-    // Get total OUT transactions
+    // Get total OUT transactions (everything that raised balances)
     const outStmt = await db.prepareAsync(
-      'SELECT COALESCE(SUM(amount), 0) as total FROM transactions WHERE type = ?'
+      `SELECT COALESCE(SUM(${balanceEffectSql('t')}), 0) as total FROM ${debtorLedger} WHERE (${balanceEffectSql('t')}) > 0`
     );
     let totalOut = 0;
     try {
-      const outResult = await outStmt.executeAsync(['OUT']);
+      const outResult = await outStmt.executeAsync();
       const outData = await outResult.getFirstAsync() as { total: number } | null;
       totalOut = outData?.total ?? 0;
     } finally {
       await outStmt.finalizeAsync();
     }
 
+    // Get the amounts forgiven and written off
+    const writeDownStmt = await db.prepareAsync(
+      `SELECT COALESCE(SUM(CASE t.type WHEN 'WAIVER' THEN t.amount ELSE 0 END), 0) as waived,
+              COALESCE(SUM(CASE t.type WHEN 'WRITE_OFF' THEN t.amount ELSE 0 END), 0) as written_off
+       FROM ${debtorLedger}`
+    );
+    let totalWaived = 0;
+    let totalWrittenOff = 0;
+    try {
+      const writeDownResult = await writeDownStmt.executeAsync();
+      const writeDownData = await writeDownResult.getFirstAsync() as { waived: number; written_off: number } | null;
+      totalWaived = writeDownData?.waived ?? 0;
+      totalWrittenOff = writeDownData?.written_off ?? 0;
+    } finally {
+      await writeDownStmt.finalizeAsync();
+    }
+
+    // Get the part of debtor balances that is past its due date
+    const overdueStmt = await db.prepareAsync(
+      `SELECT COALESCE(SUM(o.overdue_amount), 0) as total FROM (${overdueByDebtorSql()}) o
+       JOIN debtors d ON d.id = o.debtor_id AND d.kind = 'DEBTOR' AND d.deleted_at IS NULL`
+    );
+    let overdueTotal = 0;
+    try {
+      const overdueResult = await overdueStmt.executeAsync();
+      const overdueData = await overdueResult.getFirstAsync() as { total: number } | null;
+      overdueTotal = overdueData?.total ?? 0;
+    } finally {
+      await overdueStmt.finalizeAsync();
+    }
+
     return {
       totalBalance,
+      totalReceivable,
+      totalPayable,
       totalIn,
       totalOut,
+      totalWaived,
+      totalWrittenOff,
+      overdueTotal,
     };
   } catch (error: any) {
     console.error('[getStatistics] Error fetching statistics:', error);
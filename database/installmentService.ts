@@ -0,0 +1,286 @@
+import { writeAuditEntry } from '@/database/auditService';
+import { refreshSQLiteProvider } from '@/database/db';
+import { unpaidChargesSql } from '@/database/ledgerSql';
+import { runInTransaction } from '@/database/transactionRunner';
+import {
+  Installment,
+  InstallmentFrequency,
+  InstallmentPlan,
+  InstallmentPlanInput,
+  InstallmentStatus,
+} from '@/types/installment';
+import { Transaction } from '@/types/transaction';
+import { MinorUnits } from '@/utils/money';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface ScheduledInstallment {
+  seq: number;
+  dueDate: string;
+  amount: MinorUnits;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Due date `index` periods after `startDate`. Monthly installments keep the
+// start day, clamped to the last day of shorter months.
+const addPeriods = (startDate: string, frequency: InstallmentFrequency, index: number): string => {
+  const [year, month, day] = startDate.split('-').map(Number);
+  if (frequency === 'MONTHLY') {
+    const target = new Date(Date.UTC(year, month - 1 + index, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    return `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(day, lastDay))}`;
+  }
+  const days = (frequency === 'WEEKLY' ? 7 : 14) * index;
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Suggested per-installment amount: the debt split evenly, rounded up so the
+// last installment is never the largest
+export const defaultInstallmentAmount = (debtAmount: MinorUnits, count: number): MinorUnits =>
+  Math.ceil(debtAmount / count);
+
+// Split a debt into `plan.count` installments of `plan.amount`, the last one
+// taking whatever remains. Throws if the plan cannot add up to the debt.
+export const buildInstallmentSchedule = (
+  debtAmount: MinorUnits,
+  plan: InstallmentPlanInput
+): ScheduledInstallment[] => {
+  if (!Number.isInteger(plan.count) || plan.count < 2) {
+    throw new Error('An installment plan needs at least 2 installments');
+  }
+  if (!Number.isInteger(plan.amount) || plan.amount <= 0) {
+    throw new Error('Installment amount must be greater than zero');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(plan.startDate)) {
+    throw new Error('First due date must be in the format YYYY-MM-DD');
+  }
+  const last = debtAmount - plan.amount * (plan.count - 1);
+  if (last <= 0) {
+    throw new Error('The installments add up to more than the debt');
+  }
+
+  return Array.from({ length: plan.count }, (_, index) => ({
+    seq: index + 1,
+    dueDate: addPeriods(plan.startDate, plan.frequency, index),
+    amount: index === plan.count - 1 ? last : plan.amount,
+  }));
+};
+
+const writeSchedule = async (
+  txn: SQLiteDatabase,
+  planId: number,
+  schedule: ScheduledInstallment[]
+): Promise<void> => {
+  for (const installment of schedule) {
+    await txn.runAsync(
+      'INSERT INTO installments (plan_id, seq, due_date, amount) VALUES (?, ?, ?, ?)',
+      [planId, installment.seq, installment.dueDate, installment.amount]
+    );
+  }
+};
+
+// Attach a plan to a debt entry. Runs inside the caller's transaction so the
+// debt and its schedule are written together.
+export const insertInstallmentPlan = async (
+  txn: SQLiteDatabase,
+  transactionId: number,
+  debtAmount: MinorUnits,
+  plan: InstallmentPlanInput
+): Promise<number> => {
+  const schedule = buildInstallmentSchedule(debtAmount, plan);
+  const insert = await txn.runAsync(
+    `INSERT INTO installment_plans (transaction_id, installment_count, installment_amount, frequency, start_date)
+     VALUES (?, ?, ?, ?, ?)`,
+    [transactionId, plan.count, plan.amount, plan.frequency, plan.startDate]
+  );
+  await writeSchedule(txn, insert.lastInsertRowId, schedule);
+  return insert.lastInsertRowId;
+};
+
+// Rebuild a debt's schedule after its amount changed; no-op if it has no plan
+export const rescheduleInstallmentPlan = async (
+  txn: SQLiteDatabase,
+  transactionId: number,
+  debtAmount: MinorUnits
+): Promise<void> => {
+  const plan = await txn.getFirstAsync<{
+    id: number;
+    installment_count: number;
+    installment_amount: number;
+    frequency: InstallmentFrequency;
+    start_date: string;
+  }>('SELECT * FROM installment_plans WHERE transaction_id = ?', [transactionId]);
+  if (!plan) return;
+
+  const schedule = buildInstallmentSchedule(debtAmount, {
+    count: plan.installment_count,
+    amount: plan.installment_amount,
+    frequency: plan.frequency,
+    startDate: plan.start_date,
+  });
+  await txn.runAsync('DELETE FROM installments WHERE plan_id = ?', [plan.id]);
+  await writeSchedule(txn, plan.id, schedule);
+};
+
+// Remove a debt's plan and schedule. Deleted explicitly rather than relying on
+// ON DELETE CASCADE, which only applies where foreign keys are enabled.
+export const deleteInstallmentPlanForTransaction = async (
+  txn: SQLiteDatabase,
+  transactionId: number
+): Promise<void> => {
+  await txn.runAsync(
+    'DELETE FROM installments WHERE plan_id IN (SELECT id FROM installment_plans WHERE transaction_id = ?)',
+    [transactionId]
+  );
+  await txn.runAsync('DELETE FROM installment_plans WHERE transaction_id = ?', [transactionId]);
+};
+
+// Remove an installment plan; the debt itself is kept. Recorded as an edit of
+// the debt whose old value carries the plan, so undo can bring it back.
+export const deleteInstallmentPlan = async (
+  db: SQLiteDatabase,
+  planId: number
+): Promise<void> => {
+  if (!db) {
+    console.warn('[deleteInstallmentPlan] Database is null, cannot delete plan');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const plan = await txn.getFirstAsync<{
+        transaction_id: number;
+        installment_count: number;
+        installment_amount: number;
+        frequency: InstallmentFrequency;
+        start_date: string;
+      }>('SELECT * FROM installment_plans WHERE id = ?', [planId]);
+      if (!plan) {
+        throw new Error(`Installment plan ${planId} not found`);
+      }
+      const debt = await txn.getFirstAsync<Transaction>('SELECT * FROM transactions WHERE id = ?', [
+        plan.transaction_id,
+      ]);
+      if (!debt) {
+        throw new Error(`Transaction ${plan.transaction_id} not found`);
+      }
+
+      await txn.runAsync('DELETE FROM installments WHERE plan_id = ?', [planId]);
+      await txn.runAsync('DELETE FROM installment_plans WHERE id = ?', [planId]);
+      const installmentPlan: InstallmentPlanInput = {
+        count: plan.installment_count,
+        amount: plan.installment_amount,
+        frequency: plan.frequency,
+        startDate: plan.start_date,
+      };
+      await writeAuditEntry(txn, {
+        debtorId: debt.debtor_id,
+        entity: 'TRANSACTION',
+        entityId: debt.id,
+        operation: 'UPDATE',
+        oldValue: { ...debt, installmentPlan },
+        newValue: debt,
+      });
+    });
+  } catch (error: any) {
+    console.error('[deleteInstallmentPlan] Error deleting plan:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+const todayString = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Fill installments in order with the part of the debt already repaid
+const applyRepaid = (
+  rows: { seq: number; due_date: string; amount: number }[],
+  repaid: MinorUnits,
+  today: string
+): Installment[] => {
+  let remaining = repaid;
+  return rows.map((row) => {
+    const paid = Math.min(row.amount, Math.max(0, remaining));
+    remaining -= paid;
+    let status: InstallmentStatus;
+    if (paid >= row.amount) status = 'PAID';
+    else if (row.due_date < today) status = 'LATE';
+    else if (paid > 0) status = 'PARTIAL';
+    else status = 'DUE';
+    return { seq: row.seq, dueDate: row.due_date, amount: row.amount, paid, status };
+  });
+};
+
+// Get a debtor's installment plans with each installment's paid amount and
+// status, newest debt first
+export const getInstallmentPlansForDebtor = async (
+  db: SQLiteDatabase,
+  debtorId: number
+): Promise<InstallmentPlan[]> => {
+  if (!db) {
+    console.warn('[getInstallmentPlansForDebtor] Database is null, returning empty array');
+    return [];
+  }
+
+  try {
+    const plans = await db.getAllAsync<{
+      id: number;
+      transaction_id: number;
+      frequency: InstallmentFrequency;
+      debt_date: string;
+      debt_amount: number;
+      unpaid: number;
+    }>(
+      `SELECT p.id, p.transaction_id, p.frequency, t.date AS debt_date, u.amount AS debt_amount, u.unpaid
+       FROM installment_plans p
+       JOIN transactions t ON t.id = p.transaction_id
+       JOIN (${unpaidChargesSql()}) u ON u.id = p.transaction_id
+       WHERE t.debtor_id = ?
+       ORDER BY t.date DESC, t.time DESC`,
+      [debtorId]
+    );
+    if (plans.length === 0) return [];
+
+    const rows = await db.getAllAsync<{ plan_id: number; seq: number; due_date: string; amount: number }>(
+      `SELECT i.plan_id, i.seq, i.due_date, i.amount
+       FROM installments i
+       JOIN installment_plans p ON p.id = i.plan_id
+       JOIN transactions t ON t.id = p.transaction_id
+       WHERE t.debtor_id = ?
+       ORDER BY i.plan_id, i.seq`,
+      [debtorId]
+    );
+
+    const today = todayString();
+    return plans.map((plan) => ({
+      id: plan.id,
+      transactionId: plan.transaction_id,
+      debtAmount: plan.debt_amount,
+      debtDate: plan.debt_date,
+      frequency: plan.frequency,
+      installments: applyRepaid(
+        rows.filter((row) => row.plan_id === plan.id),
+        plan.debt_amount - plan.unpaid,
+        today
+      ),
+    }));
+  } catch (error: any) {
+    console.error('[getInstallmentPlansForDebtor] Error fetching plans:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      console.warn('[getInstallmentPlansForDebtor] Database not available, requesting provider refresh');
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getInstallmentPlansForDebtor] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
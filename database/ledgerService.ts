@@ -0,0 +1,288 @@
+import { allocateOpenPayments, applyManualAllocations, clearAllocationsForEntry } from '@/database/allocationService';
+import { unarchiveIfOwing } from '@/database/archiveService';
+import { writeAuditEntry } from '@/database/auditService';
+import { skipChargeOf } from '@/database/chargeService';
+import { getDebtorById } from '@/database/debtorService';
+import {
+  deleteInstallmentPlanForTransaction,
+  insertInstallmentPlan,
+  rescheduleInstallmentPlan,
+} from '@/database/installmentService';
+import { balanceEffectSql } from '@/database/ledgerSql';
+import { indexTransaction } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { PaymentAllocationInput } from '@/types/allocation';
+import { Debtor } from '@/types/debtor';
+import { InstallmentPlanInput } from '@/types/installment';
+import { isCreditTransactionType, isSignedTransactionType, Transaction, TransactionType } from '@/types/transaction';
+import { MinorUnits } from '@/utils/money';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface LedgerEntryInput {
+  amount: MinorUnits;
+  date: string;
+  time: string;
+  note?: string;
+  // Only kept for debt (OUT) entries
+  dueDate?: string | null;
+  // Only used when recording a debt (OUT)
+  installmentPlan?: InstallmentPlanInput | null;
+  // Debts a payment, waiver or write-off settles; the rest is applied oldest first
+  allocations?: PaymentAllocationInput[] | null;
+}
+
+export interface LedgerWriteResult {
+  debtor: Debtor;
+  transaction: Transaction;
+}
+
+// How much a transaction of the given type moves the debtor's balance.
+// OUT (money lent) increases what they owe, IN (payment received), WAIVER and
+// WRITE_OFF reduce it, and ADJUSTMENT/OPENING amounts are already signed.
+export const balanceDelta = (type: TransactionType, amount: MinorUnits): MinorUnits =>
+  isCreditTransactionType(type) ? -amount : amount;
+
+// Amounts are whole minor units; signed types may be negative but never zero
+const isValidAmount = (type: TransactionType, amount: MinorUnits): boolean =>
+  Number.isInteger(amount) && (isSignedTransactionType(type) ? amount !== 0 : amount > 0);
+
+const dueDateFor = (type: TransactionType, entry: LedgerEntryInput): string | null =>
+  type === 'OUT' ? entry.dueDate ?? null : null;
+
+// Insert a transaction and apply its balance change in one SQLite transaction.
+// The new balance is computed in SQL from the stored value, never from a
+// possibly stale copy held by the caller.
+const recordEntry = async (
+  db: SQLiteDatabase,
+  debtorId: number,
+  type: TransactionType,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => {
+  if (!db) {
+    console.warn('[recordEntry] Database is null, cannot record transaction');
+    throw new Error('Database not available');
+  }
+  if (!isValidAmount(type, entry.amount)) {
+    throw new Error(
+      isSignedTransactionType(type)
+        ? 'Amount must be a non-zero whole number of minor units'
+        : 'Amount must be a positive whole number of minor units'
+    );
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const insert = await txn.runAsync(
+        'INSERT INTO transactions (debtor_id, type, date, time, amount, note, due_date) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [debtorId, type, entry.date, entry.time, entry.amount, entry.note ?? null, dueDateFor(type, entry)]
+      );
+      const update = await txn.runAsync(
+        'UPDATE debtors SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [balanceDelta(type, entry.amount), debtorId]
+      );
+      if (update.changes === 0) {
+        throw new Error(`Debtor ${debtorId} not found`);
+      }
+      await unarchiveIfOwing(txn, debtorId);
+      if (type === 'OUT' && entry.installmentPlan) {
+        await insertInstallmentPlan(txn, insert.lastInsertRowId, entry.amount, entry.installmentPlan);
+      }
+      if (isCreditTransactionType(type) && entry.allocations?.length) {
+        await applyManualAllocations(txn, debtorId, insert.lastInsertRowId, entry.amount, entry.allocations);
+      }
+      await allocateOpenPayments(txn, debtorId);
+
+      const transaction = await txn.getFirstAsync<Transaction>(
+        'SELECT * FROM transactions WHERE id = ?',
+        [insert.lastInsertRowId]
+      );
+      const debtor = await getDebtorById(txn, debtorId);
+      if (!transaction || !debtor) {
+        throw new Error('Failed to read back recorded transaction');
+      }
+      await writeAuditEntry(txn, {
+        debtorId,
+        entity: 'TRANSACTION',
+        entityId: transaction.id,
+        operation: 'CREATE',
+        newValue: transaction,
+      });
+      await indexTransaction(txn, transaction.id);
+      return { debtor, transaction };
+    });
+  } catch (error: any) {
+    console.error('[recordEntry] Error recording transaction:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Record a payment received from a debtor (IN) and lower their balance
+export const recordPayment = (
+  db: SQLiteDatabase,
+  debtorId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => recordEntry(db, debtorId, 'IN', entry);
+
+// Record money lent to a debtor (OUT) and raise their balance
+export const recordDebt = (
+  db: SQLiteDatabase,
+  debtorId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => recordEntry(db, debtorId, 'OUT', entry);
+
+// Forgive part of a debtor's debt (WAIVER) and lower their balance. Reported
+// apart from payments since no money was received.
+export const recordWaiver = (
+  db: SQLiteDatabase,
+  debtorId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => recordEntry(db, debtorId, 'WAIVER', entry);
+
+// Give up on an unrecoverable amount (WRITE_OFF) and lower the balance
+export const recordWriteOff = (
+  db: SQLiteDatabase,
+  debtorId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => recordEntry(db, debtorId, 'WRITE_OFF', entry);
+
+// Correct a balance by a signed amount (ADJUSTMENT): positive raises it,
+// negative lowers it
+export const recordAdjustment = (
+  db: SQLiteDatabase,
+  debtorId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => recordEntry(db, debtorId, 'ADJUSTMENT', entry);
+
+// Recompute a debtor's stored balance from their remaining transactions. The
+// opening balance is an OPENING entry, so the sum fully explains the balance.
+// A debtor left owing is taken out of the archive.
+export const recomputeDebtorBalance = async (
+  txn: SQLiteDatabase,
+  debtorId: number
+): Promise<void> => {
+  await txn.runAsync(
+    `UPDATE debtors SET balance = (
+       SELECT COALESCE(SUM(${balanceEffectSql('t')}), 0) FROM transactions t WHERE t.debtor_id = ?
+     ), updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [debtorId, debtorId]
+  );
+  await unarchiveIfOwing(txn, debtorId);
+};
+
+// Correct the amount, date, time, note or due date of an existing transaction
+export const updateTransaction = async (
+  db: SQLiteDatabase,
+  transactionId: number,
+  entry: LedgerEntryInput
+): Promise<LedgerWriteResult> => {
+  if (!db) {
+    console.warn('[updateTransaction] Database is null, cannot update transaction');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const before = await txn.getFirstAsync<Transaction>(
+        'SELECT * FROM transactions WHERE id = ?',
+        [transactionId]
+      );
+      if (!before) {
+        throw new Error(`Transaction ${transactionId} not found`);
+      }
+      if (!isValidAmount(before.type, entry.amount)) {
+        throw new Error('Invalid amount for this transaction type');
+      }
+
+      await txn.runAsync(
+        'UPDATE transactions SET date = ?, time = ?, amount = ?, note = ?, due_date = ? WHERE id = ?',
+        [entry.date, entry.time, entry.amount, entry.note ?? null, dueDateFor(before.type, entry), transactionId]
+      );
+      if (entry.amount !== before.amount) {
+        await rescheduleInstallmentPlan(txn, transactionId, entry.amount);
+        // The old allocations no longer fit; re-apply oldest first
+        await clearAllocationsForEntry(txn, transactionId);
+        await allocateOpenPayments(txn, before.debtor_id);
+      }
+      const transaction = await txn.getFirstAsync<Transaction>(
+        'SELECT * FROM transactions WHERE id = ?',
+        [transactionId]
+      );
+      await recomputeDebtorBalance(txn, before.debtor_id);
+
+      const debtor = await getDebtorById(txn, before.debtor_id);
+      if (!transaction || !debtor) {
+        throw new Error('Failed to read back updated transaction');
+      }
+      await writeAuditEntry(txn, {
+        debtorId: before.debtor_id,
+        entity: 'TRANSACTION',
+        entityId: transactionId,
+        operation: 'UPDATE',
+        oldValue: before,
+        newValue: transaction,
+      });
+      await indexTransaction(txn, transactionId);
+      return { debtor, transaction };
+    });
+  } catch (error: any) {
+    console.error('[updateTransaction] Error updating transaction:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Delete a transaction and return the debtor with the corrected balance
+export const deleteTransaction = async (
+  db: SQLiteDatabase,
+  transactionId: number
+): Promise<Debtor> => {
+  if (!db) {
+    console.warn('[deleteTransaction] Database is null, cannot delete transaction');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const before = await txn.getFirstAsync<Transaction>(
+        'SELECT * FROM transactions WHERE id = ?',
+        [transactionId]
+      );
+      if (!before) {
+        throw new Error(`Transaction ${transactionId} not found`);
+      }
+
+      await deleteInstallmentPlanForTransaction(txn, transactionId);
+      await clearAllocationsForEntry(txn, transactionId);
+      await skipChargeOf(txn, transactionId);
+      await txn.runAsync('DELETE FROM transactions WHERE id = ?', [transactionId]);
+      await allocateOpenPayments(txn, before.debtor_id);
+      await recomputeDebtorBalance(txn, before.debtor_id);
+      // Written last so that undoing the newest entry restores the transaction
+      await writeAuditEntry(txn, {
+        debtorId: before.debtor_id,
+        entity: 'TRANSACTION',
+        entityId: transactionId,
+        operation: 'DELETE',
+        oldValue: before,
+      });
+      await indexTransaction(txn, transactionId);
+
+      const debtor = await getDebtorById(txn, before.debtor_id);
+      if (!debtor) {
+        throw new Error(`Debtor ${before.debtor_id} not found`);
+      }
+      return debtor;
+    });
+  } catch (error: any) {
+    console.error('[deleteTransaction] Error deleting transaction:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
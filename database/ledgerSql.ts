@@ -0,0 +1,48 @@
+// Shared SQL fragments for queries that aggregate over the transactions table.
+
+// Signed effect of a transaction row on its debtor's balance. OUT raises the
+// balance, IN/WAIVER/WRITE_OFF lower it, and ADJUSTMENT/OPENING amounts are
+// already signed.
+export const balanceEffectSql = (alias: string = 't'): string =>
+  `CASE WHEN ${alias}.type IN ('IN', 'WAIVER', 'WRITE_OFF') THEN -${alias}.amount ELSE ${alias}.amount END`;
+
+// Rows of (id, debtor_id, due_date, amount, unpaid) for every entry that
+// raised a balance. The unpaid part is whatever payment_allocations has not
+// applied to it (see database/allocationService). An optional condition on t
+// narrows the entries, e.g. 't.debtor_id = d.id' for one debtor of an outer
+// query.
+export const unpaidChargesSql = (where: string = ''): string => `
+  SELECT t.id AS id, t.debtor_id AS debtor_id, t.due_date AS due_date,
+         ${balanceEffectSql('t')} AS amount,
+         ${balanceEffectSql('t')} - COALESCE((
+           SELECT SUM(a.amount) FROM payment_allocations a WHERE a.debt_id = t.id
+         ), 0) AS unpaid
+  FROM transactions t
+  WHERE ${balanceEffectSql('t')} > 0${where ? ` AND ${where}` : ''}
+`;
+
+// Rows of (debtor_id, overdue_amount): how much of each debtor's balance is
+// past its due date. A debt with an installment plan is overdue by the unpaid
+// part of its late installments (repayments fill installments in order); any
+// other entry once its own due date has passed. `where` narrows the entries
+// as for unpaidChargesSql.
+export const overdueByDebtorSql = (where: string = ''): string => `
+  SELECT o.debtor_id AS debtor_id, SUM(o.overdue) AS overdue_amount
+  FROM (
+    SELECT u.debtor_id, u.unpaid AS overdue
+    FROM (${unpaidChargesSql(where)}) u
+    WHERE u.due_date IS NOT NULL AND u.due_date < date('now', 'localtime')
+      AND NOT EXISTS (SELECT 1 FROM installment_plans p WHERE p.transaction_id = u.id)
+    UNION ALL
+    SELECT s.debtor_id, MAX(0, MIN(s.amount, s.cumulative - s.paid)) AS overdue
+    FROM (
+      SELECT u.debtor_id, i.amount, i.due_date, u.amount - u.unpaid AS paid,
+             SUM(i.amount) OVER (PARTITION BY i.plan_id ORDER BY i.seq) AS cumulative
+      FROM installments i
+      JOIN installment_plans p ON p.id = i.plan_id
+      JOIN (${unpaidChargesSql(where)}) u ON u.id = p.transaction_id
+    ) s
+    WHERE s.due_date < date('now', 'localtime')
+  ) o
+  GROUP BY o.debtor_id
+`;
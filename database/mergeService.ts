@@ -0,0 +1,185 @@
+import { allocateOpenPayments } from '@/database/allocationService';
+import { snapshotDebtor, writeAuditEntry } from '@/database/auditService';
+import { getAllDebtors } from '@/database/debtorService';
+import { writePhoneNumbers } from '@/database/phoneService';
+import { indexDebtor } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { DuplicateMatch } from '@/types/debtor';
+import { phoneMatchKey } from '@/utils/phone';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const nameWords = (name: string) =>
+  name
+    .toLowerCase()
+    .split(/[\s.,;:'"()/-]+/)
+    .filter(Boolean);
+
+// Edit distance between two short strings
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Names are similar when every word of the shorter one starts the matching
+// word of the longer ("Nimal" and "Nimal P", "N Perera" and "Nimal Perera"),
+// or when they differ by a typo or two
+const similarNames = (a: string, b: string): boolean => {
+  const wordsA = nameWords(a);
+  const wordsB = nameWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return false;
+  const [shorter, longer] = wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (shorter.every((word, i) => longer[i].startsWith(word) || word.startsWith(longer[i]))) {
+    // A lone initial is not enough to call two names alike
+    return shorter.some((word, i) => Math.min(word.length, longer[i].length) > 1);
+  }
+  const joinedA = wordsA.join(' ');
+  const joinedB = wordsB.join(' ');
+  return editDistance(joinedA, joinedB) <= (Math.min(joinedA.length, joinedB.length) >= 8 ? 2 : 1);
+};
+
+// Existing debtors that share a phone number with, or have a name similar to,
+// a debtor about to be added. Pass excludeId to leave a debtor itself out.
+export const findPossibleDuplicates = async (
+  db: SQLiteDatabase,
+  name: string,
+  phoneNumbers: string[],
+  excludeId?: number
+): Promise<DuplicateMatch[]> => {
+  const keys = new Set(phoneNumbers.map(phoneMatchKey).filter((key): key is string => key !== null));
+  const matches: DuplicateMatch[] = [];
+  for (const debtor of await getAllDebtors(db)) {
+    if (debtor.id === excludeId) continue;
+    const samePhone = debtor.phoneNumbers.some((phone) => {
+      const key = phoneMatchKey(phone);
+      return key !== null && keys.has(key);
+    });
+    const similarName = similarNames(name, debtor.name);
+    if (samePhone || similarName) {
+      matches.push({ debtor, samePhone, similarName });
+    }
+  }
+  // Shared phone numbers are the stronger signal
+  return matches.sort((a, b) => Number(b.samePhone) - Number(a.samePhone));
+};
+
+// Merge sourceId into targetId: the source's transactions, phone numbers and
+// any profile details the target lacks move over, the balances add up and the
+// emptied source goes to the trash. Both debtors get a MERGE entry in their
+// history. A merge is not offered for undo.
+export const mergeDebtors = async (db: SQLiteDatabase, targetId: number, sourceId: number): Promise<void> => {
+  if (!db) {
+    console.warn('[mergeDebtors] Database is null, cannot merge debtors');
+    throw new Error('Database not available');
+  }
+  if (targetId === sourceId) {
+    throw new Error('Choose two different debtors to merge');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const target = await snapshotDebtor(txn, targetId);
+      const source = await snapshotDebtor(txn, sourceId);
+      if (!target || !source || target.deletedAt || source.deletedAt) {
+        throw new Error('Both debtors must exist and not be in the trash');
+      }
+      if (target.kind !== source.kind) {
+        throw new Error('A debtor and a creditor cannot be merged');
+      }
+
+      // A debtor can be charged once per kind and period. Where both were
+      // charged for the same period the source's charge moves over as it is,
+      // amount and allocations included, without the period; the target's
+      // own charge keeps marking that period as posted.
+      await txn.runAsync(
+        `UPDATE transactions SET charge_period = NULL
+         WHERE debtor_id = ? AND charge_kind IS NOT NULL AND EXISTS (
+           SELECT 1 FROM transactions t
+           WHERE t.debtor_id = ? AND t.charge_kind = transactions.charge_kind
+             AND t.charge_period = transactions.charge_period
+         )`,
+        [sourceId, targetId]
+      );
+      await txn.runAsync('UPDATE transactions SET debtor_id = ? WHERE debtor_id = ?', [targetId, sourceId]);
+
+      // The target's primary number stays primary
+      const phones = [...(target.phones ?? [])];
+      const keys = new Set(phones.map((phone) => phoneMatchKey(phone.number) ?? phone.number));
+      for (const phone of source.phones ?? []) {
+        const key = phoneMatchKey(phone.number) ?? phone.number;
+        if (keys.has(key)) continue;
+        keys.add(key);
+        phones.push({ ...phone, isPrimary: false });
+      }
+      await writePhoneNumbers(txn, targetId, phones);
+      await txn.runAsync('DELETE FROM phone_numbers WHERE debtor_id = ?', [sourceId]);
+
+      await txn.runAsync(
+        `INSERT OR IGNORE INTO debtor_custom_values (debtor_id, field_id, value)
+         SELECT ?, field_id, value FROM debtor_custom_values WHERE debtor_id = ?`,
+        [targetId, sourceId]
+      );
+      await txn.runAsync('DELETE FROM debtor_custom_values WHERE debtor_id = ?', [sourceId]);
+      // The target keeps its own charge rule, if any
+      await txn.runAsync('DELETE FROM charge_rules WHERE debtor_id = ?', [sourceId]);
+
+      // The stored balances are added rather than recomputed from the ledger so
+      // that any drift either had stays visible to reconciliation
+      await txn.runAsync(
+        `UPDATE debtors SET
+           balance = balance + ?,
+           address = COALESCE(address, ?),
+           email = COALESCE(email, ?),
+           notes = COALESCE(notes, ?),
+           national_id = COALESCE(national_id, ?),
+           archived_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          source.balance,
+          source.address ?? null,
+          source.email ?? null,
+          source.notes ?? null,
+          source.nationalId ?? null,
+          targetId,
+        ]
+      );
+      await txn.runAsync(
+        'UPDATE debtors SET balance = 0, deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [sourceId]
+      );
+      await allocateOpenPayments(txn, targetId);
+
+      await writeAuditEntry(txn, {
+        debtorId: targetId,
+        entity: 'DEBTOR',
+        entityId: targetId,
+        operation: 'MERGE',
+        oldValue: target,
+        newValue: { ...(await snapshotDebtor(txn, targetId)), mergedFrom: source.name },
+      });
+      await writeAuditEntry(txn, {
+        debtorId: sourceId,
+        entity: 'DEBTOR',
+        entityId: sourceId,
+        operation: 'MERGE',
+        oldValue: source,
+        newValue: { ...(await snapshotDebtor(txn, sourceId)), mergedInto: target.name },
+      });
+      await indexDebtor(txn, targetId);
+      await indexDebtor(txn, sourceId);
+    });
+  } catch (error: any) {
+    console.error('[mergeDebtors] Error merging debtors:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,580 @@
+import { MINOR_UNITS_PER_MAJOR } from '@/utils/money';
+
+// The part of expo-sqlite's SQLiteDatabase the migrations need. Keeping it this
+// small lets the registry run against any SQLite binding, e.g. a Node script
+// checking an empty or old database without a device.
+export interface MigrationDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: (string | number | null)[]): Promise<unknown>;
+  getFirstAsync<T>(source: string): Promise<T | null>;
+  getAllAsync<T>(source: string): Promise<T[]>;
+}
+
+export interface Migration {
+  // Schema version after this migration; stored in PRAGMA user_version
+  id: number;
+  description: string;
+  up: string | ((db: MigrationDatabase) => Promise<void>);
+}
+
+// Ordered list of every schema change. Append new entries with the next id;
+// never edit one that has shipped, databases in the wild have already run it.
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    id: 1,
+    description: 'Create debtors and phone_numbers',
+    up: `
+      CREATE TABLE debtors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        balance REAL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE phone_numbers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        phone_number TEXT NOT NULL,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS idx_debtor_id ON phone_numbers(debtor_id);
+    `,
+  },
+  {
+    id: 2,
+    description: 'Create transactions',
+    up: `
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT')),
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        amount REAL NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
+    `,
+  },
+  {
+    // SQLite cannot alter a CHECK constraint, so the table is rebuilt
+    id: 3,
+    description: 'Allow ADJUSTMENT transactions',
+    up: `
+      CREATE TABLE transactions_v3 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT')),
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        amount REAL NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      INSERT INTO transactions_v3 (id, debtor_id, type, date, time, amount, note, created_at)
+        SELECT id, debtor_id, type, date, time, amount, note, created_at FROM transactions;
+      DROP TABLE transactions;
+      ALTER TABLE transactions_v3 RENAME TO transactions;
+      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
+    `,
+  },
+  {
+    // Existing debtors get an OPENING entry for whatever part of their balance
+    // the transactions do not explain, dated when the debtor was created
+    id: 4,
+    description: 'Record opening balances as OPENING transactions',
+    up: `
+      CREATE TABLE transactions_v4 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT', 'OPENING')),
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        amount REAL NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      INSERT INTO transactions_v4 (id, debtor_id, type, date, time, amount, note, created_at)
+        SELECT id, debtor_id, type, date, time, amount, note, created_at FROM transactions;
+      DROP TABLE transactions;
+      ALTER TABLE transactions_v4 RENAME TO transactions;
+      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
+      INSERT INTO transactions (debtor_id, type, date, time, amount, note, created_at)
+        SELECT d.id, 'OPENING', date(d.created_at), strftime('%H:%M', d.created_at),
+               d.balance - COALESCE(SUM(CASE t.type WHEN 'IN' THEN -t.amount ELSE t.amount END), 0),
+               'Opening balance', d.created_at
+        FROM debtors d
+        LEFT JOIN transactions t ON t.debtor_id = d.id
+        GROUP BY d.id
+        HAVING ABS(d.balance - COALESCE(SUM(CASE t.type WHEN 'IN' THEN -t.amount ELSE t.amount END), 0)) > 0.005;
+    `,
+  },
+  {
+    // Each transaction amount is rounded once and balances are re-summed from
+    // the rounded amounts so the ledger stays exact
+    id: 5,
+    description: 'Store money as integer minor units',
+    up: `
+      CREATE TABLE transactions_v5 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT', 'OPENING')),
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      INSERT INTO transactions_v5 (id, debtor_id, type, date, time, amount, note, created_at)
+        SELECT id, debtor_id, type, date, time, CAST(ROUND(amount * ${MINOR_UNITS_PER_MAJOR}) AS INTEGER), note, created_at
+        FROM transactions;
+      DROP TABLE transactions;
+      ALTER TABLE transactions_v5 RENAME TO transactions;
+      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
+      CREATE TABLE debtors_v5 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        balance INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO debtors_v5 (id, name, balance, created_at, updated_at)
+        SELECT d.id, d.name,
+               (SELECT COALESCE(SUM(CASE t.type WHEN 'IN' THEN -t.amount ELSE t.amount END), 0) FROM transactions t WHERE t.debtor_id = d.id),
+               d.created_at, d.updated_at
+        FROM debtors d;
+      DROP TABLE debtors;
+      ALTER TABLE debtors_v5 RENAME TO debtors;
+    `,
+  },
+  {
+    // Optional repayment date (YYYY-MM-DD) on debt entries
+    id: 6,
+    description: 'Add due dates to transactions',
+    up: `
+      ALTER TABLE transactions ADD COLUMN due_date TEXT;
+    `,
+  },
+  {
+    // A debt repaid in fixed parts. The schedule is stored row by row; how much
+    // of each installment is paid is derived from the ledger when read.
+    id: 7,
+    description: 'Add installment plans',
+    up: `
+      CREATE TABLE installment_plans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_id INTEGER NOT NULL UNIQUE,
+        installment_count INTEGER NOT NULL,
+        installment_amount INTEGER NOT NULL,
+        frequency TEXT NOT NULL CHECK(frequency IN ('WEEKLY', 'BIWEEKLY', 'MONTHLY')),
+        start_date TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+      );
+      CREATE TABLE installments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        plan_id INTEGER NOT NULL,
+        seq INTEGER NOT NULL,
+        due_date TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        UNIQUE (plan_id, seq),
+        FOREIGN KEY (plan_id) REFERENCES installment_plans(id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    // Which debt each payment settled. Existing payments are applied to each
+    // debtor's oldest open debts first, the same rule new payments default to.
+    id: 8,
+    description: 'Add payment allocations',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE payment_allocations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          payment_id INTEGER NOT NULL,
+          debt_id INTEGER NOT NULL,
+          amount INTEGER NOT NULL CHECK(amount > 0),
+          UNIQUE (payment_id, debt_id),
+          FOREIGN KEY (payment_id) REFERENCES transactions(id) ON DELETE CASCADE,
+          FOREIGN KEY (debt_id) REFERENCES transactions(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_payment_allocations_debt_id ON payment_allocations(debt_id);
+      `);
+
+      const rows = await db.getAllAsync<{ id: number; debtor_id: number; effect: number }>(`
+        SELECT id, debtor_id, CASE type WHEN 'IN' THEN -amount ELSE amount END AS effect
+        FROM transactions
+        ORDER BY debtor_id, date, time, id
+      `);
+      const byDebtor = new Map<number, { id: number; effect: number }[]>();
+      for (const row of rows) {
+        if (!byDebtor.has(row.debtor_id)) byDebtor.set(row.debtor_id, []);
+        byDebtor.get(row.debtor_id)!.push(row);
+      }
+      for (const entries of byDebtor.values()) {
+        const debts = entries.filter((e) => e.effect > 0).map((e) => ({ id: e.id, open: e.effect }));
+        const payments = entries.filter((e) => e.effect < 0).map((e) => ({ id: e.id, open: -e.effect }));
+        let d = 0;
+        for (const payment of payments) {
+          while (payment.open > 0 && d < debts.length) {
+            const applied = Math.min(payment.open, debts[d].open);
+            await db.runAsync(
+              'INSERT INTO payment_allocations (payment_id, debt_id, amount) VALUES (?, ?, ?)',
+              [payment.id, debts[d].id, applied]
+            );
+            payment.open -= applied;
+            debts[d].open -= applied;
+            if (debts[d].open === 0) d++;
+          }
+        }
+      }
+    },
+  },
+  {
+    // Interest and late-fee rules (debtor_id NULL is the global default) and
+    // the columns that tag the OUT entries they generate. The unique index
+    // keeps a charge for the same period from being posted twice.
+    id: 9,
+    description: 'Add interest and late-fee rules',
+    up: `
+      CREATE TABLE charge_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER UNIQUE,
+        interest_type TEXT NOT NULL DEFAULT 'NONE' CHECK(interest_type IN ('NONE', 'SIMPLE', 'COMPOUND')),
+        monthly_rate_bp INTEGER NOT NULL DEFAULT 0,
+        late_fee_type TEXT NOT NULL DEFAULT 'NONE' CHECK(late_fee_type IN ('NONE', 'FLAT', 'PERCENT')),
+        late_fee_value INTEGER NOT NULL DEFAULT 0,
+        grace_days INTEGER NOT NULL DEFAULT 0,
+        auto_post INTEGER NOT NULL DEFAULT 0,
+        start_date TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      CREATE UNIQUE INDEX idx_charge_rules_global ON charge_rules((debtor_id IS NULL)) WHERE debtor_id IS NULL;
+      ALTER TABLE transactions ADD COLUMN charge_kind TEXT CHECK(charge_kind IN ('INTEREST', 'LATE_FEE'));
+      ALTER TABLE transactions ADD COLUMN charge_period TEXT;
+      CREATE UNIQUE INDEX idx_transactions_charge ON transactions(debtor_id, charge_kind, charge_period)
+        WHERE charge_kind IS NOT NULL;
+    `,
+  },
+  {
+    // Forgiven and written-off amounts get their own types instead of being
+    // recorded as payments. Same CHECK rebuild as migration 3; the rows keep
+    // their ids so allocations and installment plans still point at them.
+    id: 10,
+    description: 'Allow WAIVER and WRITE_OFF transactions',
+    up: `
+      CREATE TABLE transactions_v10 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('IN', 'OUT', 'ADJUSTMENT', 'OPENING', 'WAIVER', 'WRITE_OFF')),
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        due_date TEXT,
+        charge_kind TEXT CHECK(charge_kind IN ('INTEREST', 'LATE_FEE')),
+        charge_period TEXT,
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+      INSERT INTO transactions_v10 (id, debtor_id, type, date, time, amount, note, created_at, due_date, charge_kind, charge_period)
+        SELECT id, debtor_id, type, date, time, amount, note, created_at, due_date, charge_kind, charge_period
+        FROM transactions;
+      DROP TABLE transactions;
+      ALTER TABLE transactions_v10 RENAME TO transactions;
+      CREATE INDEX IF NOT EXISTS idx_transactions_debtor_id ON transactions(debtor_id);
+      CREATE UNIQUE INDEX idx_transactions_charge ON transactions(debtor_id, charge_kind, charge_period)
+        WHERE charge_kind IS NOT NULL;
+    `,
+  },
+  {
+    // Contacts we owe money to. Everyone already stored stays a DEBTOR.
+    id: 11,
+    description: 'Add counterparty kind to debtors',
+    up: `
+      ALTER TABLE debtors ADD COLUMN kind TEXT NOT NULL DEFAULT 'DEBTOR' CHECK(kind IN ('DEBTOR', 'CREDITOR'));
+    `,
+  },
+  {
+    // Deleting a debtor only stamps deleted_at; their phones and transactions
+    // stay attached until the trash is purged. app_settings holds small
+    // user preferences such as the trash retention period.
+    id: 12,
+    description: 'Add debtor trash and app settings',
+    up: `
+      ALTER TABLE debtors ADD COLUMN deleted_at DATETIME;
+      CREATE INDEX IF NOT EXISTS idx_debtors_deleted_at ON debtors(deleted_at);
+      CREATE TABLE app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    // Append-only history of changes to debtors and their transactions, with
+    // JSON snapshots of the old and new values. debtor_id has no foreign key
+    // so the history outlives a purged debtor.
+    id: 13,
+    description: 'Add audit log',
+    up: `
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        entity TEXT NOT NULL CHECK(entity IN ('DEBTOR', 'TRANSACTION')),
+        entity_id INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK(operation IN ('CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE')),
+        old_value TEXT,
+        new_value TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_debtor_id ON audit_log(debtor_id, id);
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `,
+  },
+  {
+    // An undo appends the reverse change with reverts_id pointing at the
+    // entry it reverted, so the log stays append-only
+    id: 14,
+    description: 'Link audit entries to the entries they undo',
+    up: `
+      ALTER TABLE audit_log ADD COLUMN reverts_id INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_audit_log_reverts_id ON audit_log(reverts_id);
+    `,
+  },
+  {
+    // Settled debtors can be archived out of the main list; recording a new
+    // debt for them clears archived_at again
+    id: 15,
+    description: 'Add debtor archive',
+    up: `
+      ALTER TABLE debtors ADD COLUMN archived_at DATETIME;
+    `,
+  },
+  {
+    // Contact details on the debtor row, plus fields the user defines once
+    // (custom_fields) and fills in per debtor (debtor_custom_values). options
+    // is a JSON array of choices for SELECT fields.
+    id: 16,
+    description: 'Add debtor profile and custom fields',
+    up: `
+      ALTER TABLE debtors ADD COLUMN address TEXT;
+      ALTER TABLE debtors ADD COLUMN email TEXT;
+      ALTER TABLE debtors ADD COLUMN notes TEXT;
+      ALTER TABLE debtors ADD COLUMN national_id TEXT;
+      CREATE TABLE custom_fields (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL CHECK(type IN ('TEXT', 'NUMBER', 'DATE', 'SELECT')),
+        options TEXT,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE debtor_custom_values (
+        debtor_id INTEGER NOT NULL,
+        field_id INTEGER NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (debtor_id, field_id),
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE,
+        FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS idx_debtor_custom_values_field_id ON debtor_custom_values(field_id);
+    `,
+  },
+  {
+    // A merge of two debtors is recorded as its own operation
+    id: 17,
+    description: 'Allow MERGE audit entries',
+    up: `
+      CREATE TABLE audit_log_v17 (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        debtor_id INTEGER NOT NULL,
+        entity TEXT NOT NULL CHECK(entity IN ('DEBTOR', 'TRANSACTION')),
+        entity_id INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK(operation IN ('CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'PURGE', 'MERGE')),
+        old_value TEXT,
+        new_value TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        reverts_id INTEGER
+      );
+      INSERT INTO audit_log_v17 (id, debtor_id, entity, entity_id, operation, old_value, new_value, created_at, reverts_id)
+        SELECT id, debtor_id, entity, entity_id, operation, old_value, new_value, created_at, reverts_id
+        FROM audit_log;
+      DROP TABLE audit_log;
+      ALTER TABLE audit_log_v17 RENAME TO audit_log;
+      CREATE INDEX IF NOT EXISTS idx_audit_log_debtor_id ON audit_log(debtor_id, id);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_reverts_id ON audit_log(reverts_id);
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `,
+  },
+  {
+    // Phone numbers get a label and one primary number per debtor, which is
+    // the one they were added with first. Numbers are converted to E.164 at
+    // app start (see normalizeStoredPhoneNumbers) since that needs the
+    // default country.
+    id: 18,
+    description: 'Add phone number labels and primary number',
+    up: `
+      ALTER TABLE phone_numbers ADD COLUMN label TEXT NOT NULL DEFAULT 'MOBILE' CHECK(label IN ('MOBILE', 'HOME', 'WORK'));
+      ALTER TABLE phone_numbers ADD COLUMN is_primary INTEGER NOT NULL DEFAULT 0;
+      UPDATE phone_numbers SET is_primary = 1
+        WHERE id IN (SELECT MIN(id) FROM phone_numbers GROUP BY debtor_id);
+    `,
+  },
+  {
+    // Full-text index over debtor names, phone numbers, profile text and
+    // transaction notes. The service layer keeps it in sync (see
+    // searchService); it is filled at app start by ensureSearchIndex since
+    // phone numbers are indexed in several forms.
+    id: 19,
+    description: 'Add full-text search index',
+    up: `
+      CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        name,
+        phones,
+        details,
+        note,
+        debtor_id UNINDEXED,
+        transaction_id UNINDEXED,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+    `,
+  },
+  {
+    // The Debtors tab pages through debtors sorted by balance
+    id: 20,
+    description: 'Index debtors by balance for paged lists',
+    up: `
+      CREATE INDEX IF NOT EXISTS idx_debtors_balance ON debtors(balance, id);
+    `,
+  },
+  {
+    // Charge periods whose posted interest or late fee was deleted or undone,
+    // so the rules engine does not post them again
+    id: 21,
+    description: 'Remember removed charges',
+    up: `
+      CREATE TABLE skipped_charges (
+        debtor_id INTEGER NOT NULL,
+        charge_kind TEXT NOT NULL CHECK(charge_kind IN ('INTEREST', 'LATE_FEE')),
+        charge_period TEXT NOT NULL,
+        skipped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (debtor_id, charge_kind, charge_period),
+        FOREIGN KEY (debtor_id) REFERENCES debtors(id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    // Entries the app writes on its own, such as phone numbers converted at
+    // start, are kept in the history but not offered for undo
+    id: 22,
+    description: 'Mark system audit entries',
+    up: `
+      ALTER TABLE audit_log ADD COLUMN is_system INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].id;
+
+// Bring the database up to LATEST_SCHEMA_VERSION and return the version it was
+// at before. Each migration runs in its own transaction together with its
+// schema_migrations row and user_version bump, so an interrupted upgrade
+// resumes from the last completed step.
+export async function runMigrations(
+  db: MigrationDatabase,
+  log: (...args: any[]) => void = () => {}
+): Promise<number> {
+  MIGRATIONS.forEach((migration, index) => {
+    if (migration.id !== index + 1) {
+      throw new Error(`Migration ids must be consecutive from 1; found ${migration.id} at position ${index + 1}`);
+    }
+  });
+
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const startVersion = result?.user_version ?? 0;
+  log('runMigrations: current version =', startVersion);
+  if (startVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${startVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION}). Update the app to open it.`
+    );
+  }
+
+  if (startVersion === 0) {
+    // journal_mode cannot change inside a transaction, so set it up front
+    await db.execAsync(`PRAGMA journal_mode = 'wal'`);
+  }
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+  // Databases upgraded before this table existed: record what user_version
+  // says was applied, with an unknown applied_at
+  for (const migration of MIGRATIONS.filter((m) => m.id <= startVersion)) {
+    await db.runAsync(
+      'INSERT OR IGNORE INTO schema_migrations (id, description, applied_at) VALUES (?, ?, NULL)',
+      [migration.id, migration.description]
+    );
+  }
+
+  // Table rebuilds drop and recreate parents of foreign keys; with enforcement
+  // on, dropping debtors would cascade into phone_numbers and transactions.
+  // foreign_keys is a no-op inside a transaction, so toggle it around the loop
+  // and verify integrity before each commit instead.
+  await db.execAsync('PRAGMA foreign_keys = OFF');
+  try {
+    for (const migration of MIGRATIONS.filter((m) => m.id > startVersion)) {
+      log(`runMigrations: applying v${migration.id} (${migration.description})`);
+      await db.execAsync('BEGIN');
+      try {
+        if (typeof migration.up === 'string') {
+          await db.execAsync(migration.up);
+        } else {
+          await migration.up(db);
+        }
+        const violations = await db.getAllAsync<{ table: string }>('PRAGMA foreign_key_check');
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.id} left ${violations.length} foreign key violation(s)`);
+        }
+        await db.runAsync('INSERT INTO schema_migrations (id, description) VALUES (?, ?)', [
+          migration.id,
+          migration.description,
+        ]);
+        await db.execAsync(`PRAGMA user_version = ${migration.id}`);
+        await db.execAsync('COMMIT');
+      } catch (error) {
+        await db.execAsync('ROLLBACK');
+        throw error;
+      }
+    }
+  } finally {
+    // Cascading deletes (e.g. deleteDebtor) rely on enforcement being on for
+    // this connection
+    await db.execAsync('PRAGMA foreign_keys = ON');
+  }
+
+  log('runMigrations: completed at version', LATEST_SCHEMA_VERSION);
+  return startVersion;
+}
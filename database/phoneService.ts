@@ -0,0 +1,57 @@
+import { getSetting, setSetting } from '@/database/settingsService';
+import { PhoneLabel, PhoneNumber } from '@/types/phone';
+import { Country, DEFAULT_COUNTRY_CODE, findCountry } from '@/utils/phone';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const COUNTRY_SETTING = 'phone_country';
+
+type PhoneRow = { debtor_id: number; phone_number: string; label: PhoneLabel; is_primary: number };
+
+// Phone numbers of the given debtors, or of every debtor when ids is omitted,
+// keyed by debtor id with each debtor's primary number first
+export const loadPhoneNumbers = async (txn: SQLiteDatabase, ids?: number[]): Promise<Map<number, PhoneNumber[]>> => {
+  const columns = 'SELECT debtor_id, phone_number, label, is_primary FROM phone_numbers';
+  const order = 'ORDER BY debtor_id, is_primary DESC, id';
+  const rows = ids
+    ? await txn.getAllAsync<PhoneRow>(
+        `${columns} WHERE debtor_id IN (${ids.map(() => '?').join(', ')}) ${order}`,
+        ids
+      )
+    : await txn.getAllAsync<PhoneRow>(`${columns} ${order}`);
+  const byDebtor = new Map<number, PhoneNumber[]>();
+  for (const row of rows) {
+    const phones = byDebtor.get(row.debtor_id) ?? [];
+    phones.push({ number: row.phone_number, label: row.label, isPrimary: row.is_primary === 1 });
+    byDebtor.set(row.debtor_id, phones);
+  }
+  return byDebtor;
+};
+
+// Numbers typed without a country code are read as numbers of this country
+export const getDefaultCountry = async (db: SQLiteDatabase): Promise<Country> =>
+  findCountry((await getSetting(db, COUNTRY_SETTING)) ?? DEFAULT_COUNTRY_CODE);
+
+export const setDefaultCountry = async (db: SQLiteDatabase, code: string): Promise<void> => {
+  if (findCountry(code).code !== code) {
+    throw new Error(`Unsupported country: ${code}`);
+  }
+  await setSetting(db, COUNTRY_SETTING, code);
+};
+
+// Replace a debtor's phone numbers inside the caller's transaction. Exactly one
+// number ends up primary: the first one flagged, or else the first one.
+export const writePhoneNumbers = async (txn: SQLiteDatabase, debtorId: number, phones: PhoneNumber[]): Promise<void> => {
+  const primary = Math.max(
+    phones.findIndex((phone) => phone.isPrimary),
+    0
+  );
+  await txn.runAsync('DELETE FROM phone_numbers WHERE debtor_id = ?', [debtorId]);
+  for (const [index, phone] of phones.entries()) {
+    await txn.runAsync('INSERT INTO phone_numbers (debtor_id, phone_number, label, is_primary) VALUES (?, ?, ?, ?)', [
+      debtorId,
+      phone.number,
+      phone.label,
+      index === primary ? 1 : 0,
+    ]);
+  }
+};
@@ -0,0 +1,144 @@
+import { allocateOpenPayments } from '@/database/allocationService';
+import { writeAuditEntry } from '@/database/auditService';
+import { balanceEffectSql } from '@/database/ledgerSql';
+import { indexTransaction } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { Transaction } from '@/types/transaction';
+import { MinorUnits } from '@/utils/money';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+export interface BalanceDrift {
+  debtorId: number;
+  name: string;
+  storedBalance: MinorUnits;
+  expectedBalance: MinorUnits;
+  // storedBalance - expectedBalance
+  difference: MinorUnits;
+}
+
+const driftQuery = (where: string): string => `
+  SELECT d.id AS debtor_id, d.name AS name, d.balance AS stored_balance,
+         COALESCE(SUM(${balanceEffectSql('t')}), 0) AS expected_balance
+  FROM debtors d
+  LEFT JOIN transactions t ON t.debtor_id = d.id
+  WHERE ${where}
+  GROUP BY d.id
+  HAVING d.balance <> COALESCE(SUM(${balanceEffectSql('t')}), 0)
+  ORDER BY d.name ASC
+`;
+
+type DriftRow = {
+  debtor_id: number;
+  name: string;
+  stored_balance: number;
+  expected_balance: number;
+};
+
+const toDrift = (row: DriftRow): BalanceDrift => ({
+  debtorId: row.debtor_id,
+  name: row.name,
+  storedBalance: row.stored_balance,
+  expectedBalance: row.expected_balance,
+  difference: row.stored_balance - row.expected_balance,
+});
+
+// Recompute every debtor's balance from their transactions and report those
+// whose stored balance disagrees
+export const findBalanceDrifts = async (db: SQLiteDatabase): Promise<BalanceDrift[]> => {
+  if (!db) {
+    console.warn('[findBalanceDrifts] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    const rows = await db.getAllAsync<DriftRow>(driftQuery('1 = 1'));
+    return rows.map(toDrift);
+  } catch (error: any) {
+    console.error('[findBalanceDrifts] Error checking balances:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+const repairInTransaction = async (
+  txn: SQLiteDatabase,
+  debtorId: number
+): Promise<Transaction | null> => {
+  const row = await txn.getFirstAsync<DriftRow>(driftQuery('d.id = ?'), [debtorId]);
+  if (!row) return null;
+
+  // The stored balance is what the user has been seeing, so keep it and add an
+  // entry that makes the transaction history explain it.
+  const drift = toDrift(row);
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+  const insert = await txn.runAsync(
+    'INSERT INTO transactions (debtor_id, type, date, time, amount, note) VALUES (?, ?, ?, ?, ?, ?)',
+    [debtorId, 'ADJUSTMENT', date, time, drift.difference, 'Balance reconciliation adjustment']
+  );
+  await allocateOpenPayments(txn, debtorId);
+  const adjustment = await txn.getFirstAsync<Transaction>('SELECT * FROM transactions WHERE id = ?', [
+    insert.lastInsertRowId,
+  ]);
+  // Marked so that undoing it leaves the stored balance alone, as this did
+  await writeAuditEntry(txn, {
+    debtorId,
+    entity: 'TRANSACTION',
+    entityId: insert.lastInsertRowId,
+    operation: 'CREATE',
+    newValue: { ...adjustment, reconciliation: true },
+  });
+  await indexTransaction(txn, insert.lastInsertRowId);
+  return adjustment;
+};
+
+// Write an ADJUSTMENT entry so a debtor's transactions add up to their stored
+// balance. Returns the adjustment, or null if the debtor had no drift.
+export const repairBalanceDrift = async (
+  db: SQLiteDatabase,
+  debtorId: number
+): Promise<Transaction | null> => {
+  if (!db) {
+    console.warn('[repairBalanceDrift] Database is null, cannot repair balance');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, (txn) => repairInTransaction(txn, debtorId));
+  } catch (error: any) {
+    console.error('[repairBalanceDrift] Error repairing balance:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Repair every drifted debtor in a single transaction; returns how many were fixed
+export const repairAllBalanceDrifts = async (db: SQLiteDatabase): Promise<number> => {
+  if (!db) {
+    console.warn('[repairAllBalanceDrifts] Database is null, cannot repair balances');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const rows = await txn.getAllAsync<DriftRow>(driftQuery('1 = 1'));
+      let repaired = 0;
+      for (const row of rows) {
+        if (await repairInTransaction(txn, row.debtor_id)) repaired++;
+      }
+      return repaired;
+    });
+  } catch (error: any) {
+    console.error('[repairAllBalanceDrifts] Error repairing balances:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,161 @@
+import { refreshSQLiteProvider } from '@/database/db';
+import { getSetting, setSetting } from '@/database/settingsService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { SEARCH_MARK_END, SEARCH_MARK_START, SearchHit } from '@/types/search';
+import { phoneQueryDigits, phoneSearchForms } from '@/utils/phone';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// The search_index FTS5 table (migration 19) holds one row per debtor with
+// their name, phone numbers and profile text, and one row per transaction
+// that has a note. The service functions that change any of these call
+// indexDebtor or indexTransaction inside their own transaction.
+
+// Bump when the indexed text changes shape so existing installs rebuild
+const INDEX_VERSION = '1';
+const INDEX_VERSION_SETTING = 'search_index_version';
+
+const insertRow = (
+  txn: SQLiteDatabase,
+  debtorId: number,
+  transactionId: number | null,
+  columns: { name?: string; phones?: string; details?: string; note?: string }
+) =>
+  txn.runAsync(
+    'INSERT INTO search_index (name, phones, details, note, debtor_id, transaction_id) VALUES (?, ?, ?, ?, ?, ?)',
+    [columns.name ?? '', columns.phones ?? '', columns.details ?? '', columns.note ?? '', debtorId, transactionId]
+  );
+
+// Re-index a debtor and their transaction notes inside the caller's
+// transaction. A debtor that no longer exists is simply dropped.
+export const indexDebtor = async (txn: SQLiteDatabase, debtorId: number): Promise<void> => {
+  await txn.runAsync('DELETE FROM search_index WHERE debtor_id = ?', [debtorId]);
+  const debtor = await txn.getFirstAsync<{
+    name: string;
+    address: string | null;
+    email: string | null;
+    notes: string | null;
+    national_id: string | null;
+  }>('SELECT name, address, email, notes, national_id FROM debtors WHERE id = ?', [debtorId]);
+  if (!debtor) return;
+
+  const phones = await txn.getAllAsync<{ phone_number: string }>(
+    'SELECT phone_number FROM phone_numbers WHERE debtor_id = ?',
+    [debtorId]
+  );
+  const customValues = await txn.getAllAsync<{ value: string }>(
+    'SELECT value FROM debtor_custom_values WHERE debtor_id = ?',
+    [debtorId]
+  );
+  await insertRow(txn, debtorId, null, {
+    name: debtor.name,
+    // Every form someone might type, so "0771234567" finds "+94771234567"
+    phones: phones.flatMap((phone) => phoneSearchForms(phone.phone_number)).join(' '),
+    details: [debtor.address, debtor.email, debtor.national_id, debtor.notes, ...customValues.map((row) => row.value)]
+      .filter(Boolean)
+      .join('\n'),
+  });
+
+  const notes = await txn.getAllAsync<{ id: number; note: string }>(
+    "SELECT id, note FROM transactions WHERE debtor_id = ? AND note IS NOT NULL AND note != ''",
+    [debtorId]
+  );
+  for (const row of notes) {
+    await insertRow(txn, debtorId, row.id, { note: row.note });
+  }
+};
+
+// Re-index one transaction's note inside the caller's transaction, or drop
+// it when the transaction is gone or has no note
+export const indexTransaction = async (txn: SQLiteDatabase, transactionId: number): Promise<void> => {
+  await txn.runAsync('DELETE FROM search_index WHERE transaction_id = ?', [transactionId]);
+  const row = await txn.getFirstAsync<{ debtor_id: number; note: string | null }>(
+    'SELECT debtor_id, note FROM transactions WHERE id = ?',
+    [transactionId]
+  );
+  if (row?.note) {
+    await insertRow(txn, row.debtor_id, transactionId, { note: row.note });
+  }
+};
+
+// Index every debtor from scratch
+export const rebuildSearchIndex = async (db: SQLiteDatabase): Promise<number> =>
+  runInTransaction(db, async (txn) => {
+    await txn.runAsync('DELETE FROM search_index');
+    const debtors = await txn.getAllAsync<{ id: number }>('SELECT id FROM debtors');
+    for (const debtor of debtors) {
+      await indexDebtor(txn, debtor.id);
+    }
+    return debtors.length;
+  });
+
+// Build the index on first run after an upgrade. Run at app start; returns
+// how many debtors were indexed.
+export const ensureSearchIndex = async (db: SQLiteDatabase): Promise<number> => {
+  if ((await getSetting(db, INDEX_VERSION_SETTING)) === INDEX_VERSION) return 0;
+  const count = await rebuildSearchIndex(db);
+  await setSetting(db, INDEX_VERSION_SETTING, INDEX_VERSION);
+  return count;
+};
+
+// Turn what the user typed into an FTS5 query: every word must match the
+// start of an indexed word. A query that looks like a phone number is
+// matched as one run of digits.
+const toMatchQuery = (query: string): string | null => {
+  const digits = phoneQueryDigits(query.trim());
+  const words = digits ? [digits] : query.split(/\s+/);
+  const terms = words.map((word) => word.replaceAll('"', '')).filter(Boolean);
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(' ') : null;
+};
+
+// Debtors and transactions matching a search, grouped by debtor with the
+// debtor of the best match first. Every matching debtor is returned, each with
+// at most notesPerDebtor matching transaction notes, so debtors are never
+// crowded out by notes. Debtors in the trash are left out.
+export const searchDebtors = async (
+  db: SQLiteDatabase,
+  query: string,
+  notesPerDebtor: number = 3
+): Promise<SearchHit[]> => {
+  if (!db) {
+    console.warn('[searchDebtors] Database connection is null or undefined');
+    return [];
+  }
+  const match = toMatchQuery(query);
+  if (!match) return [];
+
+  try {
+    const rows = await db.getAllAsync<{ debtor_id: number; transaction_id: number | null; snippet: string }>(
+      // snippet() cannot share a query with window functions, so the hits are
+      // ranked within their debtor in a subquery joined back on rowid
+      `SELECT s.debtor_id, s.transaction_id, snippet(search_index, 3, ?, ?, '…', 12) AS snippet
+       FROM search_index s
+       JOIN (
+         SELECT rowid AS id,
+                ROW_NUMBER() OVER (PARTITION BY debtor_id, transaction_id IS NULL ORDER BY rank) AS debtor_hit,
+                MIN(rank) OVER (PARTITION BY debtor_id) AS best
+         FROM search_index WHERE search_index MATCH ?
+       ) h ON h.id = s.rowid
+       JOIN debtors d ON d.id = s.debtor_id AND d.deleted_at IS NULL
+       WHERE search_index MATCH ? AND (s.transaction_id IS NULL OR h.debtor_hit <= ?)
+       ORDER BY h.best, s.debtor_id, s.transaction_id IS NOT NULL, h.debtor_hit`,
+      [SEARCH_MARK_START, SEARCH_MARK_END, match, match, notesPerDebtor]
+    );
+    return rows.map((row) => ({
+      debtorId: row.debtor_id,
+      transactionId: row.transaction_id,
+      snippet: row.transaction_id !== null ? row.snippet : null,
+    }));
+  } catch (error: any) {
+    console.error('[searchDebtors] Error searching:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[searchDebtors] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// Small key/value preferences stored in the app_settings table, so they travel
+// with the database in backups
+
+export const getSetting = async (db: SQLiteDatabase, key: string): Promise<string | null> => {
+  if (!db) {
+    console.warn('[getSetting] Database connection is null or undefined');
+    return null;
+  }
+  try {
+    const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM app_settings WHERE key = ?', [key]);
+    return row?.value ?? null;
+  } catch (error) {
+    console.warn(`[getSetting] Failed to read ${key}:`, error);
+    return null;
+  }
+};
+
+export const setSetting = async (db: SQLiteDatabase, key: string, value: string): Promise<void> => {
+  if (!db) {
+    console.warn('[setSetting] Database is null, cannot save setting');
+    throw new Error('Database not available');
+  }
+  try {
+    await db.runAsync(
+      'INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+      [key, value]
+    );
+  } catch (error: any) {
+    console.error(`[setSetting] Error saving ${key}:`, error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { Platform } from 'react-native';
+
+// Run `task` inside a single SQLite transaction and return its result.
+// Native platforms use an exclusive transaction so no other async query can
+// interleave with the task; web does not support exclusive transactions, so
+// it falls back to withTransactionAsync on the shared connection.
+export async function runInTransaction<T>(
+  db: SQLiteDatabase,
+  task: (txn: SQLiteDatabase) => Promise<T>
+): Promise<T> {
+  let result: T | undefined;
+  if (Platform.OS === 'web') {
+    await db.withTransactionAsync(async () => {
+      result = await task(db);
+    });
+  } else {
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      result = await task(txn);
+    });
+  }
+  return result as T;
+}
@@ -0,0 +1,164 @@
+import { auditDebtorChange, snapshotDebtor, writeAuditEntry } from '@/database/auditService';
+import { refreshSQLiteProvider } from '@/database/db';
+import { getSetting, setSetting } from '@/database/settingsService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { CounterpartyKind, Debtor } from '@/types/debtor';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+const RETENTION_SETTING = 'trash_retention_days';
+
+// How long trashed debtors are kept before they are purged; 0 keeps them
+// until purged by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const getTrashRetentionDays = async (db: SQLiteDatabase): Promise<number> => {
+  const stored = await getSetting(db, RETENTION_SETTING);
+  const value = Number(stored);
+  return stored !== null && Number.isInteger(value) && value >= 0 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = async (db: SQLiteDatabase, days: number): Promise<void> => {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('Retention must be a whole number of days');
+  }
+  await setSetting(db, RETENTION_SETTING, String(days));
+};
+
+// Get the debtors in the trash, most recently deleted first
+export const getTrashedDebtors = async (db: SQLiteDatabase): Promise<Debtor[]> => {
+  if (!db) {
+    console.warn('[getTrashedDebtors] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    const rows = await db.getAllAsync<{
+      id: number;
+      name: string;
+      kind: CounterpartyKind;
+      balance: number;
+      created_at: string;
+      updated_at: string;
+      deleted_at: string;
+      phones: string | null;
+    }>(
+      `SELECT d.*, (SELECT GROUP_CONCAT(p.phone_number, char(10)) FROM phone_numbers p WHERE p.debtor_id = d.id) AS phones
+       FROM debtors d
+       WHERE d.deleted_at IS NOT NULL
+       ORDER BY d.deleted_at DESC`
+    );
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      phoneNumbers: row.phones ? row.phones.split('\n') : [],
+      balance: row.balance,
+      overdueAmount: 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      deletedAt: row.deleted_at,
+    }));
+  } catch (error: any) {
+    console.error('[getTrashedDebtors] Error fetching trash:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getTrashedDebtors] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Take a debtor out of the trash with everything they had
+export const restoreDebtor = async (db: SQLiteDatabase, id: number): Promise<void> => {
+  if (!db) {
+    console.warn('[restoreDebtor] Database is null, cannot restore debtor');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, async (txn) => {
+      const before = await snapshotDebtor(txn, id);
+      await txn.runAsync(
+        'UPDATE debtors SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NOT NULL',
+        [id]
+      );
+      await auditDebtorChange(txn, id, 'RESTORE', before);
+    });
+  } catch (error: any) {
+    console.error('[restoreDebtor] Error restoring debtor:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Permanently delete trashed debtors and everything attached to them, leaving
+// a PURGE entry with their last snapshot in the audit log. Rows are deleted
+// explicitly rather than relying on ON DELETE CASCADE, which only applies
+// where foreign keys are enabled.
+const purgeWhere = async (txn: SQLiteDatabase, where: string, params: (string | number)[]): Promise<number> => {
+  const debtorIds = `SELECT id FROM debtors WHERE deleted_at IS NOT NULL AND ${where}`;
+  const transactionIds = `SELECT id FROM transactions WHERE debtor_id IN (${debtorIds})`;
+  for (const { id } of await txn.getAllAsync<{ id: number }>(debtorIds, params)) {
+    await writeAuditEntry(txn, {
+      debtorId: id,
+      entity: 'DEBTOR',
+      entityId: id,
+      operation: 'PURGE',
+      oldValue: await snapshotDebtor(txn, id),
+    });
+  }
+  await txn.runAsync(
+    `DELETE FROM payment_allocations WHERE payment_id IN (${transactionIds}) OR debt_id IN (${transactionIds})`,
+    [...params, ...params]
+  );
+  await txn.runAsync(
+    `DELETE FROM installments WHERE plan_id IN (
+       SELECT id FROM installment_plans WHERE transaction_id IN (${transactionIds})
+     )`,
+    params
+  );
+  await txn.runAsync(`DELETE FROM installment_plans WHERE transaction_id IN (${transactionIds})`, params);
+  await txn.runAsync(`DELETE FROM transactions WHERE debtor_id IN (${debtorIds})`, params);
+  await txn.runAsync(`DELETE FROM phone_numbers WHERE debtor_id IN (${debtorIds})`, params);
+  await txn.runAsync(`DELETE FROM charge_rules WHERE debtor_id IN (${debtorIds})`, params);
+  await txn.runAsync(`DELETE FROM skipped_charges WHERE debtor_id IN (${debtorIds})`, params);
+  await txn.runAsync(`DELETE FROM debtor_custom_values WHERE debtor_id IN (${debtorIds})`, params);
+  await txn.runAsync(`DELETE FROM search_index WHERE debtor_id IN (${debtorIds})`, params);
+  const result = await txn.runAsync(`DELETE FROM debtors WHERE deleted_at IS NOT NULL AND ${where}`, params);
+  return result.changes;
+};
+
+// Permanently delete one trashed debtor
+export const purgeDebtor = async (db: SQLiteDatabase, id: number): Promise<void> => {
+  if (!db) {
+    console.warn('[purgeDebtor] Database is null, cannot purge debtor');
+    throw new Error('Database not available');
+  }
+
+  try {
+    await runInTransaction(db, (txn) => purgeWhere(txn, 'id = ?', [id]));
+  } catch (error: any) {
+    console.error('[purgeDebtor] Error purging debtor:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Permanently delete every debtor that has been in the trash longer than the
+// retention period. Run at app start; returns how many were purged.
+export const purgeExpiredTrash = async (db: SQLiteDatabase): Promise<number> => {
+  const days = await getTrashRetentionDays(db);
+  if (days === 0) return 0;
+  return runInTransaction(db, (txn) =>
+    purgeWhere(txn, "deleted_at < datetime('now', ?)", [`-${days} days`])
+  );
+};
@@ -0,0 +1,326 @@
+import { allocateOpenPayments, clearAllocationsForEntry } from '@/database/allocationService';
+import { unarchiveIfOwing } from '@/database/archiveService';
+import { auditDebtorChange, AuditRow, snapshotDebtor, toAuditEntry, writeAuditEntry } from '@/database/auditService';
+import { skipChargeOf, unskipChargeOf } from '@/database/chargeService';
+import { refreshSQLiteProvider } from '@/database/db';
+import {
+  deleteInstallmentPlanForTransaction,
+  insertInstallmentPlan,
+  rescheduleInstallmentPlan,
+} from '@/database/installmentService';
+import { balanceDelta } from '@/database/ledgerService';
+import { writePhoneNumbers } from '@/database/phoneService';
+import { indexDebtor, indexTransaction } from '@/database/searchService';
+import { runInTransaction } from '@/database/transactionRunner';
+import { AuditEntry, AuditOperation, DebtorSnapshot, RecentAction } from '@/types/audit';
+import { InstallmentPlanInput } from '@/types/installment';
+import { PhoneNumber } from '@/types/phone';
+import { Transaction } from '@/types/transaction';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// How many of the latest actions can be undone
+export const UNDO_LIMIT = 20;
+
+// Entries an undo can revert. Restores and purges are left out: a restore is
+// undone by deleting again, and a purge cannot be reverted. So are entries
+// the app wrote on its own.
+const UNDOABLE_SQL = `a.reverts_id IS NULL AND a.is_system = 0
+  AND (a.entity = 'TRANSACTION' OR a.operation IN ('CREATE', 'UPDATE', 'DELETE'))`;
+
+// Reverting a transaction entry is recorded as the opposite change
+const REVERSE_OPERATIONS: Partial<Record<AuditOperation, AuditOperation>> = {
+  CREATE: 'DELETE',
+  UPDATE: 'UPDATE',
+  DELETE: 'CREATE',
+};
+
+const TRANSACTION_FIELDS = ['debtor_id', 'type', 'date', 'time', 'amount', 'note', 'due_date'] as const;
+
+const sameTransaction = (row: Transaction | null, value: Record<string, unknown> | null) =>
+  !!row && !!value && TRANSACTION_FIELDS.every((field) => row[field] === value[field]);
+
+// Balance effect of a transaction snapshot, 0 when there is none
+const effectOf = (value: Record<string, unknown> | null) =>
+  value ? balanceDelta(value.type as Transaction['type'], value.amount as number) : 0;
+
+// Entries written before phone labels existed list bare numbers, primary first
+const phonesOf = (snapshot: DebtorSnapshot): PhoneNumber[] =>
+  snapshot.phones ??
+  snapshot.phoneNumbers.map((number, index) => ({ number, label: 'MOBILE', isPrimary: index === 0 }));
+
+// Everything in a debtor snapshot but the balance, with the fields that older
+// entries lack filled in so they compare equal to an unset value
+const detailsOf = (snapshot: DebtorSnapshot) =>
+  JSON.stringify({
+    name: snapshot.name,
+    kind: snapshot.kind,
+    phones: phonesOf(snapshot),
+    archivedAt: snapshot.archivedAt ?? null,
+    address: snapshot.address ?? null,
+    email: snapshot.email ?? null,
+    notes: snapshot.notes ?? null,
+    nationalId: snapshot.nationalId ?? null,
+    customValues: snapshot.customValues ?? {},
+  });
+
+// Whether the data still looks the way the entry left it, so reverting it
+// cannot overwrite a later change. A debtor's balance moves with every
+// transaction, so it is only compared when the entry itself changed it.
+const isCurrent = async (txn: SQLiteDatabase, entry: AuditEntry): Promise<boolean> => {
+  if (entry.entity === 'TRANSACTION') {
+    const row = await txn.getFirstAsync<Transaction>('SELECT * FROM transactions WHERE id = ?', [entry.entityId]);
+    return entry.operation === 'DELETE' ? !row : sameTransaction(row, entry.newValue);
+  }
+
+  const current = await snapshotDebtor(txn, entry.entityId);
+  const after = entry.newValue as DebtorSnapshot | null;
+  const before = entry.oldValue as DebtorSnapshot | null;
+  if (!current || !after) return false;
+  if (entry.operation === 'CREATE') return current.deletedAt === null;
+  if (entry.operation === 'DELETE') return current.deletedAt === after.deletedAt;
+  return (
+    current.deletedAt === null &&
+    detailsOf(current) === detailsOf(after) &&
+    (before?.balance === after.balance || current.balance === after.balance)
+  );
+};
+
+const toRecentAction = async (
+  txn: SQLiteDatabase,
+  row: AuditRow & { debtor_name: string | null; undone: number }
+): Promise<RecentAction> => {
+  const entry = toAuditEntry(row);
+  const undone = row.undone === 1;
+  return {
+    entry,
+    debtorName: row.debtor_name,
+    undone,
+    canUndo: !undone && (await isCurrent(txn, entry)),
+  };
+};
+
+const loadRecentActions = async (txn: SQLiteDatabase, limit: number): Promise<RecentAction[]> => {
+  const rows = await txn.getAllAsync<AuditRow & { debtor_name: string | null; undone: number }>(
+    `SELECT a.*, d.name AS debtor_name,
+            EXISTS (SELECT 1 FROM audit_log r WHERE r.reverts_id = a.id) AS undone
+     FROM audit_log a
+     LEFT JOIN debtors d ON d.id = a.debtor_id
+     WHERE ${UNDOABLE_SQL}
+     ORDER BY a.id DESC
+     LIMIT ?`,
+    [limit]
+  );
+  const actions: RecentAction[] = [];
+  for (const row of rows) {
+    actions.push(await toRecentAction(txn, row));
+  }
+  return actions;
+};
+
+// Get the latest actions, newest first, with whether each can still be undone
+export const getRecentActions = async (db: SQLiteDatabase, limit: number = UNDO_LIMIT): Promise<RecentAction[]> => {
+  if (!db) {
+    console.warn('[getRecentActions] Database connection is null or undefined');
+    return [];
+  }
+
+  try {
+    return await loadRecentActions(db, limit);
+  } catch (error: any) {
+    console.error('[getRecentActions] Error fetching actions:', error);
+    const msg = String(error?.message ?? error);
+    if (msg.includes('NativeDatabase') || msg.includes('NullPointerException') || msg.includes('closed resource')) {
+      try {
+        await refreshSQLiteProvider();
+      } catch (e) {
+        console.warn('[getRecentActions] refreshSQLiteProvider failed:', e);
+      }
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Revert a transaction entry. The balance moves by exactly the difference the
+// entry made, so any earlier drift is kept as it was; an entry from a balance
+// repair made none.
+const revertTransaction = async (txn: SQLiteDatabase, entry: AuditEntry): Promise<void> => {
+  const { oldValue, newValue } = entry;
+  const debtorId = entry.debtorId;
+  const id = entry.entityId;
+
+  if (entry.operation === 'CREATE') {
+    await deleteInstallmentPlanForTransaction(txn, id);
+    await clearAllocationsForEntry(txn, id);
+    await skipChargeOf(txn, id);
+    await txn.runAsync('DELETE FROM transactions WHERE id = ?', [id]);
+  } else if (entry.operation === 'UPDATE' && oldValue) {
+    await txn.runAsync('UPDATE transactions SET date = ?, time = ?, amount = ?, note = ?, due_date = ? WHERE id = ?', [
+      oldValue.date as string,
+      oldValue.time as string,
+      oldValue.amount as number,
+      (oldValue.note as string | null) ?? null,
+      (oldValue.due_date as string | null) ?? null,
+      id,
+    ]);
+    if (oldValue.amount !== newValue?.amount) {
+      await rescheduleInstallmentPlan(txn, id, oldValue.amount as number);
+      await clearAllocationsForEntry(txn, id);
+    }
+    if (oldValue.installmentPlan && !newValue?.installmentPlan) {
+      // A removed installment plan comes back with the same schedule
+      const plan = oldValue.installmentPlan as InstallmentPlanInput;
+      await insertInstallmentPlan(txn, id, oldValue.amount as number, plan);
+    }
+  } else if (entry.operation === 'DELETE' && oldValue) {
+    // The entry comes back with its id; an installment plan it had is not kept
+    // in the audit log and stays removed
+    await txn.runAsync(
+      `INSERT INTO transactions (id, debtor_id, type, date, time, amount, note, created_at, due_date, charge_kind, charge_period)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        debtorId,
+        oldValue.type as string,
+        oldValue.date as string,
+        oldValue.time as string,
+        oldValue.amount as number,
+        (oldValue.note as string | null) ?? null,
+        oldValue.created_at as string,
+        (oldValue.due_date as string | null) ?? null,
+        (oldValue.charge_kind as string | null) ?? null,
+        (oldValue.charge_period as string | null) ?? null,
+      ]
+    );
+    await unskipChargeOf(txn, id);
+  } else {
+    throw new Error('This action cannot be undone');
+  }
+
+  await allocateOpenPayments(txn, debtorId);
+  await txn.runAsync('UPDATE debtors SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [
+    newValue?.reconciliation ? 0 : effectOf(oldValue) - effectOf(newValue),
+    debtorId,
+  ]);
+  await unarchiveIfOwing(txn, debtorId);
+  const restored = await txn.getFirstAsync<Transaction>('SELECT * FROM transactions WHERE id = ?', [id]);
+  await writeAuditEntry(txn, {
+    debtorId,
+    entity: 'TRANSACTION',
+    entityId: id,
+    operation: REVERSE_OPERATIONS[entry.operation] ?? 'UPDATE',
+    oldValue: newValue,
+    newValue: restored,
+    revertsId: entry.id,
+  });
+  await indexTransaction(txn, id);
+};
+
+// Revert a debtor entry: creating moves the debtor to the trash, deleting
+// takes them out again and an edit puts back the old name, kind, phones,
+// profile and archived state. An edited balance moves back by the amount the
+// edit changed it.
+const revertDebtor = async (txn: SQLiteDatabase, entry: AuditEntry): Promise<void> => {
+  const id = entry.entityId;
+  const before = await snapshotDebtor(txn, id);
+  const oldValue = entry.oldValue as DebtorSnapshot | null;
+  const newValue = entry.newValue as DebtorSnapshot | null;
+
+  if (entry.operation === 'CREATE') {
+    await txn.runAsync('UPDATE debtors SET deleted_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    await auditDebtorChange(txn, id, 'DELETE', before, entry.id);
+  } else if (entry.operation === 'DELETE') {
+    await txn.runAsync('UPDATE debtors SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+    await auditDebtorChange(txn, id, 'RESTORE', before, entry.id);
+  } else if (entry.operation === 'UPDATE' && oldValue && newValue) {
+    await txn.runAsync(
+      `UPDATE debtors SET name = ?, kind = ?, balance = balance + ?, archived_at = ?,
+         address = ?, email = ?, notes = ?, national_id = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [
+        oldValue.name,
+        oldValue.kind,
+        oldValue.balance - newValue.balance,
+        oldValue.archivedAt ?? null,
+        oldValue.address ?? null,
+        oldValue.email ?? null,
+        oldValue.notes ?? null,
+        oldValue.nationalId ?? null,
+        id,
+      ]
+    );
+    await writePhoneNumbers(txn, id, phonesOf(oldValue));
+    // Values of custom fields deleted since are left out
+    await txn.runAsync('DELETE FROM debtor_custom_values WHERE debtor_id = ?', [id]);
+    for (const [name, value] of Object.entries(oldValue.customValues ?? {})) {
+      await txn.runAsync(
+        'INSERT INTO debtor_custom_values (debtor_id, field_id, value) SELECT ?, id, ? FROM custom_fields WHERE name = ?',
+        [id, value, name]
+      );
+    }
+    await auditDebtorChange(txn, id, 'UPDATE', before, entry.id);
+    await indexDebtor(txn, id);
+  } else {
+    throw new Error('This action cannot be undone');
+  }
+};
+
+const undoInTransaction = async (txn: SQLiteDatabase, action: RecentAction | undefined): Promise<AuditEntry> => {
+  if (!action) {
+    throw new Error('There is nothing to undo');
+  }
+  if (action.undone) {
+    throw new Error('This action has already been undone');
+  }
+  if (!action.canUndo) {
+    throw new Error('This action can no longer be undone because the data has changed since');
+  }
+  if (action.entry.entity === 'TRANSACTION') {
+    await revertTransaction(txn, action.entry);
+  } else {
+    await revertDebtor(txn, action.entry);
+  }
+  return action.entry;
+};
+
+// Undo one of the latest UNDO_LIMIT actions and return the entry it reverted
+export const undoAction = async (db: SQLiteDatabase, auditId: number): Promise<AuditEntry> => {
+  if (!db) {
+    console.warn('[undoAction] Database is null, cannot undo');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const actions = await loadRecentActions(txn, UNDO_LIMIT);
+      return undoInTransaction(txn, actions.find((action) => action.entry.id === auditId));
+    });
+  } catch (error: any) {
+    console.error('[undoAction] Error undoing action:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
+
+// Undo the most recent action that has not been undone yet
+export const undoLastAction = async (db: SQLiteDatabase): Promise<AuditEntry> => {
+  if (!db) {
+    console.warn('[undoLastAction] Database is null, cannot undo');
+    throw new Error('Database not available');
+  }
+
+  try {
+    return await runInTransaction(db, async (txn) => {
+      const actions = await loadRecentActions(txn, UNDO_LIMIT);
+      return undoInTransaction(txn, actions.find((action) => !action.undone));
+    });
+  } catch (error: any) {
+    console.error('[undoLastAction] Error undoing action:', error);
+    if (error?.message?.includes('NativeDatabase') || error?.message?.includes('closed resource')) {
+      throw new Error('Database not available. Please try again.');
+    }
+    throw error;
+  }
+};
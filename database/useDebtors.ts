@@ -1,15 +1,24 @@
 import { logDbStatus, useSQLiteContext } from '@/database/db';
-import { getAllDebtors } from '@/database/debtorService';
-import { Debtor } from '@/types/debtor';
-import { useEffect, useState } from 'react';
+import { getDebtorsPage } from '@/database/debtorService';
+import { Debtor, DebtorCursor, DebtorListQuery } from '@/types/debtor';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
-export function useDebtors() {
+// Debtors matching a list query, loaded a page at a time. loadMore appends
+// the next page; reload starts over from the first.
+export function useDebtors(query: DebtorListQuery) {
   const db = useSQLiteContext();
   const [debtors, setDebtors] = useState<Debtor[]>([]);
+  const [total, setTotal] = useState(0);
+  const [next, setNext] = useState<DebtorCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Pages requested for an older query are dropped when they arrive
+  const generation = useRef(0);
+  const { filter, sort, options, ids } = query;
 
-  const loadDebtors = async (retryCount = 0) => {
+  const loadDebtors = useCallback(async (retryCount = 0): Promise<void> => {
+    const current = ++generation.current;
     try {
       setLoading(true);
       setError(null);
@@ -20,8 +29,11 @@ export function useDebtors() {
       }
       
       await logDbStatus(db, `useDebtors:attempt-${retryCount}`);
-      const data = await getAllDebtors(db);
-      setDebtors(data);
+      const page = await getDebtorsPage(db, { filter, sort, options, ids });
+      if (current !== generation.current) return;
+      setDebtors(page.debtors);
+      setTotal(page.total);
+      setNext(page.next);
     } catch (err: any) {
       console.error('[useDebtors] Error loading debtors:', err);
       
@@ -35,17 +47,35 @@ export function useDebtors() {
         return loadDebtors(retryCount + 1);
       }
       
+      if (current !== generation.current) return;
       setError('Failed to load debtors');
       setDebtors([]); // Set empty array on error
+      setNext(null);
     } finally {
-      setLoading(false);
+      if (current === generation.current) setLoading(false);
     }
-  };
+  }, [db, filter, sort, options, ids]);
+
+  const loadMore = useCallback(async () => {
+    if (!next || loading || loadingMore) return;
+    const current = generation.current;
+    setLoadingMore(true);
+    try {
+      const page = await getDebtorsPage(db, { filter, sort, options, ids }, next);
+      if (current !== generation.current) return;
+      setDebtors((loaded) => [...loaded, ...page.debtors]);
+      setTotal(page.total);
+      setNext(page.next);
+    } catch (err: any) {
+      console.error('[useDebtors] Error loading more debtors:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [db, filter, sort, options, ids, next, loading, loadingMore]);
 
   useEffect(() => {
     loadDebtors();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [loadDebtors]);
 
-  return { debtors, loading, error, reload: loadDebtors, db };
+  return { debtors, total, loading, loadingMore, hasMore: next !== null, error, reload: loadDebtors, loadMore, db };
 }
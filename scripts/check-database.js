@@ -0,0 +1,444 @@
+// Headless checks of the database layer: the app's own migrations and
+// services run against in-memory SQLite databases, without a device.
+// Needs Node 22.13 or later for node:sqlite.
+//
+//   npm run check:db
+
+const assert = require('node:assert/strict');
+const fs = require('node:fs');
+const Module = require('node:module');
+const path = require('node:path');
+const { DatabaseSync } = require('node:sqlite');
+const ts = require('typescript');
+
+const ROOT = path.resolve(__dirname, '..');
+
+// An expo-sqlite SQLiteDatabase look-alike over a node:sqlite connection,
+// covering the calls the database layer makes
+const openDatabase = (connection = new DatabaseSync(':memory:')) => {
+  const bind = (params) => (params.length === 1 && Array.isArray(params[0]) ? params[0] : params);
+  const run = (statement, params) => {
+    const result = statement.run(...bind(params));
+    return { changes: Number(result.changes), lastInsertRowId: Number(result.lastInsertRowid) };
+  };
+  return {
+    connection,
+    execAsync: async (source) => connection.exec(source),
+    runAsync: async (source, ...params) => run(connection.prepare(source), params),
+    getFirstAsync: async (source, ...params) => connection.prepare(source).get(...bind(params)) ?? null,
+    getAllAsync: async (source, ...params) => connection.prepare(source).all(...bind(params)),
+    prepareAsync: async (source) => {
+      const statement = connection.prepare(source);
+      return {
+        executeAsync: async (...params) => {
+          if (statement.columns().length === 0) return run(statement, params);
+          const rows = statement.all(...bind(params));
+          return { getAllAsync: async () => rows, getFirstAsync: async () => rows[0] ?? null };
+        },
+        finalizeAsync: async () => {},
+      };
+    },
+  };
+};
+
+// Stand-ins for the modules that need the native provider
+let transactionDepth = 0;
+const STUBS = {
+  '@/database/db': {
+    refreshSQLiteProvider: async () => {},
+  },
+  '@/database/transactionRunner': {
+    runInTransaction: async (db, task) => {
+      if (transactionDepth > 0) return task(db);
+      transactionDepth++;
+      await db.execAsync('BEGIN');
+      try {
+        const result = await task(db);
+        await db.execAsync('COMMIT');
+        return result;
+      } catch (error) {
+        await db.execAsync('ROLLBACK');
+        throw error;
+      } finally {
+        transactionDepth--;
+      }
+    },
+  },
+};
+
+for (const [name, exports] of Object.entries(STUBS)) {
+  const stub = new Module(name);
+  stub.exports = exports;
+  stub.loaded = true;
+  require.cache[name] = stub;
+}
+
+// Resolve the @/ alias from tsconfig.json and compile TypeScript on require
+const resolveSource = (base) =>
+  [`${base}.ts`, `${base}.tsx`, base].find((candidate) => fs.existsSync(candidate)) ?? base;
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request in STUBS) return request;
+  if (request.startsWith('@/')) return resolveSource(path.join(ROOT, request.slice(2)));
+  return originalResolve.call(this, request, ...rest);
+};
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const { archiveDebtor } = require('@/database/archiveService');
+const { autoPostCharges, postCharges, previewCharges, saveChargeRule } = require('@/database/chargeService');
+const { addDebtor, getDebtorById, getDebtorsPage, normalizeStoredPhoneNumbers } = require('@/database/debtorService');
+const { deleteInstallmentPlan } = require('@/database/installmentService');
+const { deleteTransaction, recordAdjustment, recordDebt, recordPayment } = require('@/database/ledgerService');
+const { mergeDebtors } = require('@/database/mergeService');
+const { LATEST_SCHEMA_VERSION, MIGRATIONS, runMigrations } = require('@/database/migrations');
+const { repairBalanceDrift } = require('@/database/reconciliationService');
+const { searchDebtors } = require('@/database/searchService');
+const { getRecentActions, undoAction, undoLastAction } = require('@/database/undoService');
+
+const migratedDatabase = async () => {
+  const db = openDatabase();
+  await runMigrations(db);
+  return db;
+};
+
+const INTEREST_RULE = {
+  interestType: 'SIMPLE',
+  monthlyRateBp: 200,
+  lateFeeType: 'NONE',
+  lateFeeValue: 0,
+  graceDays: 0,
+  autoPost: true,
+  startDate: '2026-01-01',
+};
+
+const userVersion = (db) => db.connection.prepare('PRAGMA user_version').get().user_version;
+const isArchived = (db, id) =>
+  db.connection.prepare('SELECT archived_at FROM debtors WHERE id = ?').get(id).archived_at !== null;
+// Every debtor of a list query, read two to a page
+const readAllPages = async (db, query) => {
+  const debtors = [];
+  let after = null;
+  do {
+    const page = await getDebtorsPage(db, query, after, 2);
+    debtors.push(...page.debtors);
+    after = page.next;
+  } while (after);
+  return debtors;
+};
+const appliedMigrations = (db) =>
+  db.connection.prepare('SELECT id, applied_at FROM schema_migrations ORDER BY id').all();
+
+const CHECKS = [
+  [
+    'migrations: an empty database reaches the latest version',
+    async () => {
+      const db = openDatabase();
+      assert.equal(await runMigrations(db), 0);
+      assert.equal(userVersion(db), LATEST_SCHEMA_VERSION);
+      const applied = appliedMigrations(db);
+      assert.deepEqual(
+        applied.map((row) => row.id),
+        MIGRATIONS.map((migration) => migration.id)
+      );
+      assert.ok(applied.every((row) => row.applied_at !== null));
+    },
+  ],
+  [
+    'migrations: a second run changes nothing',
+    async () => {
+      const db = await migratedDatabase();
+      const before = appliedMigrations(db);
+      assert.equal(await runMigrations(db), LATEST_SCHEMA_VERSION);
+      assert.equal(userVersion(db), LATEST_SCHEMA_VERSION);
+      assert.deepEqual(appliedMigrations(db), before);
+    },
+  ],
+  [
+    'migrations: a v1 database is upgraded and keeps its data',
+    async () => {
+      const db = openDatabase();
+      db.connection.exec(MIGRATIONS[0].up);
+      db.connection.exec('PRAGMA user_version = 1');
+      db.connection.exec("INSERT INTO debtors (name, balance) VALUES ('Old Debtor', 12.5)");
+      db.connection.exec("INSERT INTO phone_numbers (debtor_id, phone_number) VALUES (1, '0771234567')");
+
+      assert.equal(await runMigrations(db), 1);
+      assert.equal(userVersion(db), LATEST_SCHEMA_VERSION);
+      const applied = appliedMigrations(db);
+      assert.equal(applied.length, MIGRATIONS.length);
+      // Applied before schema_migrations existed, so when is unknown
+      assert.equal(applied[0].applied_at, null);
+      assert.ok(applied.slice(1).every((row) => row.applied_at !== null));
+      const debtor = db.connection.prepare('SELECT name FROM debtors WHERE id = 1').get();
+      assert.equal(debtor.name, 'Old Debtor');
+      const phones = db.connection.prepare('SELECT COUNT(*) AS count FROM phone_numbers WHERE debtor_id = 1').get();
+      assert.equal(phones.count, 1);
+    },
+  ],
+  [
+    'migrations: a database from a newer app is refused',
+    async () => {
+      const db = openDatabase();
+      db.connection.exec(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+      await assert.rejects(runMigrations(db), /newer than this app supports/);
+      assert.equal(userVersion(db), LATEST_SCHEMA_VERSION + 1);
+    },
+  ],
+  [
+    'merge: both debtors charged interest for the same month',
+    async () => {
+      const db = await migratedDatabase();
+      const target = await addDebtor(db, 'Nimal Perera', [], 10000, '2026-01-01');
+      const source = await addDebtor(db, 'Nimal P', [], 5000, '2026-01-01');
+      await postCharges(
+        db,
+        [target, source].map((debtorId) => ({
+          debtorId,
+          debtorName: '',
+          kind: 'INTEREST',
+          period: '2026-02',
+          date: '2026-02-28',
+          amount: 100,
+          note: 'Interest for 2026-02',
+        }))
+      );
+
+      await mergeDebtors(db, target, source);
+      const charges = db.connection
+        .prepare("SELECT amount, charge_period FROM transactions WHERE debtor_id = ? AND charge_kind = 'INTEREST'")
+        .all(target);
+      assert.equal(charges.length, 2);
+      assert.equal(charges.filter((charge) => charge.charge_period === '2026-02').length, 1);
+      assert.equal((await getDebtorById(db, target)).balance, 15200);
+      const merged = await getDebtorById(db, source);
+      assert.equal(merged.balance, 0);
+      assert.notEqual(merged.deletedAt, null);
+    },
+  ],
+  [
+    'charges: a deleted charge is not posted again until its delete is undone',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', [], 10000, '2026-01-01');
+      await saveChargeRule(db, debtor, INTEREST_RULE);
+      const due = await previewCharges(db, debtor, '2026-02-15');
+      assert.deepEqual(
+        due.map((charge) => [charge.period, charge.amount]),
+        [['2026-01', 200]]
+      );
+      assert.equal(await postCharges(db, due), 1);
+
+      const charge = db.connection
+        .prepare('SELECT id FROM transactions WHERE debtor_id = ? AND charge_kind IS NOT NULL')
+        .get(debtor);
+      await deleteTransaction(db, charge.id);
+      assert.deepEqual(await previewCharges(db, debtor, '2026-02-15'), []);
+
+      await undoLastAction(db);
+      assert.equal((await getDebtorById(db, debtor)).balance, 10200);
+      assert.equal(db.connection.prepare('SELECT COUNT(*) AS count FROM skipped_charges').get().count, 0);
+      assert.deepEqual(await previewCharges(db, debtor, '2026-02-15'), []);
+    },
+  ],
+  [
+    'charges: creditors are not charged by the default rule',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', [], 10000, '2026-01-01');
+      const creditor = await addDebtor(db, 'Sunil Stores', [], 10000, '2026-01-01', 'CREDITOR');
+      await saveChargeRule(db, null, INTEREST_RULE);
+
+      assert.ok((await autoPostCharges(db)) > 0);
+      const charged = db.connection
+        .prepare('SELECT DISTINCT debtor_id FROM transactions WHERE charge_kind IS NOT NULL')
+        .all()
+        .map((row) => row.debtor_id);
+      assert.deepEqual(charged, [debtor]);
+      assert.equal((await getDebtorById(db, creditor)).balance, 10000);
+    },
+  ],
+  [
+    'archive: a debtor whose balance moves off zero leaves the archive, with an audit entry',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', [], 10000, '2026-01-01');
+      await recordPayment(db, debtor, { amount: 10000, date: '2026-01-05', time: '10:00' });
+      await archiveDebtor(db, debtor);
+
+      const { transaction } = await recordAdjustment(db, debtor, { amount: 500, date: '2026-01-06', time: '10:00' });
+      assert.equal(isArchived(db, debtor), false);
+      const entry = db.connection
+        .prepare("SELECT old_value, new_value FROM audit_log WHERE entity = 'DEBTOR' ORDER BY id DESC")
+        .get();
+      assert.notEqual(JSON.parse(entry.old_value).archivedAt, null);
+      assert.equal(JSON.parse(entry.new_value).archivedAt, null);
+
+      await deleteTransaction(db, transaction.id);
+      const deleted = db.connection
+        .prepare("SELECT id FROM audit_log WHERE entity = 'TRANSACTION' AND operation = 'DELETE' ORDER BY id DESC")
+        .get();
+      await archiveDebtor(db, debtor);
+      await undoAction(db, deleted.id);
+      assert.equal((await getDebtorById(db, debtor)).balance, 500);
+      assert.equal(isArchived(db, debtor), false);
+    },
+  ],
+  [
+    'archive: undoing the newest action after a delete brings the transaction back',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', [], 10000, '2026-01-01');
+      const { transaction } = await recordPayment(db, debtor, { amount: 10000, date: '2026-01-05', time: '10:00' });
+      await archiveDebtor(db, debtor);
+
+      await deleteTransaction(db, transaction.id);
+      assert.equal(isArchived(db, debtor), false);
+      await undoLastAction(db);
+      const restored = db.connection.prepare('SELECT id FROM transactions WHERE id = ?').get(transaction.id);
+      assert.equal(restored.id, transaction.id);
+      assert.equal((await getDebtorById(db, debtor)).balance, 0);
+    },
+  ],
+  [
+    'debtor list: pages in every sort cover everyone once, with overdue amounts',
+    async () => {
+      const db = await migratedDatabase();
+      const ids = {};
+      for (const [name, balance, date] of [
+        ['Amal', 3000, '2026-03-01'],
+        ['Bimal', 1000, '2026-01-01'],
+        ['Chamal', 0, '2026-02-01'],
+        ['Dinal', 5000, '2026-04-01'],
+        ['Emal', 1000, '2026-05-01'],
+      ]) {
+        ids[name] = await addDebtor(db, name, [], balance, date);
+      }
+      await recordDebt(db, ids.Chamal, { amount: 700, date: '2026-02-10', time: '09:00', dueDate: '2026-02-20' });
+      await recordPayment(db, ids.Dinal, { amount: 5000, date: '2026-06-01', time: '09:00' });
+
+      const names = async (sort, options) =>
+        (await readAllPages(db, { filter: 'ALL', sort, options })).map((debtor) => debtor.name);
+      assert.deepEqual(await names('BALANCE_DESC'), ['Amal', 'Bimal', 'Emal', 'Chamal', 'Dinal']);
+      assert.deepEqual(await names('LAST_ACTIVITY'), ['Dinal', 'Emal', 'Amal', 'Chamal', 'Bimal']);
+      assert.deepEqual(await names('OLDEST_DEBT'), ['Bimal', 'Chamal', 'Amal', 'Emal', 'Dinal']);
+      assert.deepEqual(await names('NAME', { overdueOnly: true }), ['Chamal']);
+
+      const page = await getDebtorsPage(db, { filter: 'ALL', sort: 'NAME', options: { overdueOnly: true } });
+      assert.equal(page.total, 1);
+      assert.equal(page.debtors[0].overdueAmount, 700);
+    },
+  ],
+  [
+    'phones: numbers converted at start are recorded in the debtor history',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', []);
+      db.connection
+        .prepare("INSERT INTO phone_numbers (debtor_id, phone_number, is_primary) VALUES (?, '0771234567', 1)")
+        .run(debtor);
+
+      assert.equal(await normalizeStoredPhoneNumbers(db), 1);
+      const entry = db.connection
+        .prepare("SELECT old_value, new_value FROM audit_log WHERE entity = 'DEBTOR' AND operation = 'UPDATE'")
+        .get();
+      assert.deepEqual(JSON.parse(entry.old_value).phoneNumbers, ['0771234567']);
+      assert.deepEqual(JSON.parse(entry.new_value).phoneNumbers, (await getDebtorById(db, debtor)).phoneNumbers);
+      assert.notDeepEqual(JSON.parse(entry.new_value).phoneNumbers, ['0771234567']);
+      assert.equal(await normalizeStoredPhoneNumbers(db), 0);
+      // The app's own change is not offered for undo
+      assert.deepEqual(
+        (await getRecentActions(db)).filter((action) => action.entry.operation === 'UPDATE'),
+        []
+      );
+    },
+  ],
+  [
+    'installments: removing a plan is audited and undo brings the schedule back',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', []);
+      const installmentPlan = { count: 3, amount: 4000, frequency: 'MONTHLY', startDate: '2026-02-01' };
+      const { transaction } = await recordDebt(db, debtor, {
+        amount: 10000,
+        date: '2026-01-01',
+        time: '10:00',
+        installmentPlan,
+      });
+      const schedule = () =>
+        db.connection
+          .prepare(
+            `SELECT i.seq, i.due_date, i.amount FROM installments i
+             JOIN installment_plans p ON p.id = i.plan_id WHERE p.transaction_id = ? ORDER BY i.seq`
+          )
+          .all(transaction.id)
+          .map((row) => ({ ...row }));
+      const before = schedule();
+      assert.equal(before.length, 3);
+      const plan = db.connection
+        .prepare('SELECT id FROM installment_plans WHERE transaction_id = ?')
+        .get(transaction.id);
+
+      await deleteInstallmentPlan(db, plan.id);
+      assert.deepEqual(schedule(), []);
+      const entry = db.connection.prepare('SELECT operation, old_value FROM audit_log ORDER BY id DESC').get();
+      assert.equal(entry.operation, 'UPDATE');
+      assert.deepEqual(JSON.parse(entry.old_value).installmentPlan, installmentPlan);
+
+      await undoLastAction(db);
+      assert.deepEqual(schedule(), before);
+      assert.equal((await getDebtorById(db, debtor)).balance, 10000);
+    },
+  ],
+  [
+    'search: every matching debtor is found however many notes match',
+    async () => {
+      const db = await migratedDatabase();
+      const busy = await addDebtor(db, 'Kamal Silva', []);
+      for (let i = 0; i < 250; i++) {
+        await recordDebt(db, busy, { amount: 100, date: '2026-02-01', time: '10:00', note: 'Rice bag' });
+      }
+      const other = await addDebtor(db, 'Rice Mill', []);
+
+      const hits = await searchDebtors(db, 'rice', 2);
+      assert.deepEqual(new Set(hits.map((hit) => hit.debtorId)), new Set([busy, other]));
+      assert.equal(hits.filter((hit) => hit.debtorId === busy).length, 2);
+    },
+  ],
+  [
+    'reconciliation: undoing a repair puts the stored balance back as it was',
+    async () => {
+      const db = await migratedDatabase();
+      const debtor = await addDebtor(db, 'Kamal Silva', [], 10000, '2026-01-01');
+      db.connection.prepare('UPDATE debtors SET balance = 12000 WHERE id = ?').run(debtor);
+
+      const adjustment = await repairBalanceDrift(db, debtor);
+      assert.equal(adjustment.amount, 2000);
+      assert.equal((await getDebtorById(db, debtor)).balance, 12000);
+      await undoLastAction(db);
+      assert.equal(db.connection.prepare('SELECT id FROM transactions WHERE id = ?').get(adjustment.id), undefined);
+      assert.equal((await getDebtorById(db, debtor)).balance, 12000);
+    },
+  ],
+];
+
+(async () => {
+  let failures = 0;
+  for (const [name, check] of CHECKS) {
+    try {
+      await check();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`not ok - ${name}`);
+      console.log(error);
+    }
+  }
+  console.log(`${CHECKS.length - failures}/${CHECKS.length} checks passed`);
+  process.exitCode = failures > 0 ? 1 : 0;
+})();
@@ -0,0 +1,26 @@
+// Part of a payment (or any entry that lowered the balance) applied to a
+// debt (an entry that raised it). Amounts are integer minor units.
+export interface PaymentAllocation {
+  id: number;
+  payment_id: number;
+  debt_id: number;
+  amount: number;
+}
+
+export interface PaymentAllocationInput {
+  debtId: number;
+  amount: number; // Integer minor units
+}
+
+export type DebtSettlement = 'OPEN' | 'PARTIAL' | 'SETTLED';
+
+export interface DebtStatus {
+  transactionId: number;
+  date: string;
+  note: string | null;
+  amount: number; // Integer minor units
+  paid: number; // Integer minor units
+  unpaid: number; // Integer minor units
+  status: DebtSettlement;
+  ageDays: number; // Days since the debt was recorded
+}
@@ -0,0 +1,49 @@
+// Figures for the analytics section of the home screen. They cover debtors
+// only, not creditors or the trash, like the totals of getStatistics. Amounts
+// are integer minor units.
+
+export type AnalyticsPeriod = 'MONTH' | 'QUARTER' | 'YEAR' | 'CUSTOM';
+
+// Inclusive YYYY-MM-DD dates
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+// What was lent to and collected from debtors in one month
+export interface MonthlyFlow {
+  month: string; // YYYY-MM
+  lent: number;
+  collected: number;
+}
+
+// Unpaid debt recorded between minDays and maxDays days ago
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null; // null for the oldest bucket
+  amount: number;
+}
+
+export interface TopDebtor {
+  id: number;
+  name: string;
+  balance: number;
+  overdueAmount: number;
+}
+
+export interface PeriodAnalytics {
+  range: DateRange;
+  lent: number;
+  collected: number;
+  collectionRate: number | null; // collected / lent, null when nothing was lent
+  averageDaysToRepay: number | null; // Over debts paid off in the period
+  repaidDebts: number;
+}
+
+export interface Analytics {
+  period: PeriodAnalytics;
+  monthly: MonthlyFlow[]; // The last 12 months, oldest first
+  aging: AgingBucket[]; // As of today
+  topDebtors: TopDebtor[]; // Largest balances today
+}
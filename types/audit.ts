@@ -0,0 +1,51 @@
+export type AuditEntity = 'DEBTOR' | 'TRANSACTION';
+export type AuditOperation = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'MERGE';
+
+import { PhoneNumber } from '@/types/phone';
+
+// A debtor as recorded in the audit log. Amounts are integer minor units.
+export interface DebtorSnapshot {
+  name: string;
+  kind: string;
+  balance: number;
+  phoneNumbers: string[];
+  deletedAt: string | null;
+  // The fields below are missing from entries written before they existed
+  archivedAt?: string | null;
+  address?: string | null;
+  email?: string | null;
+  notes?: string | null;
+  nationalId?: string | null;
+  customValues?: Record<string, string>; // Keyed by custom field name
+  phones?: PhoneNumber[]; // phoneNumbers with labels, primary first
+}
+
+// One row of the append-only audit_log table. oldValue is null for CREATE and
+// newValue is null for DELETE of a transaction and for PURGE; DEBTOR entries
+// hold a DebtorSnapshot, TRANSACTION entries the transactions row. The
+// newValue of a MERGE also names the other debtor in mergedFrom (on the debtor
+// kept) or mergedInto (on the one merged away), and the newValue of an entry
+// created by a balance repair has reconciliation set, since it explained the
+// stored balance rather than moving it. Removing a debt's installment plan is
+// an UPDATE of the debt whose oldValue also holds the plan in installmentPlan.
+export interface AuditEntry {
+  id: number;
+  debtorId: number;
+  entity: AuditEntity;
+  entityId: number;
+  operation: AuditOperation;
+  oldValue: Record<string, unknown> | null;
+  newValue: Record<string, unknown> | null;
+  revertsId: number | null; // Set on entries written by an undo, see database/undoService
+  system: boolean; // Written by the app on its own; never offered for undo
+  createdAt: string;
+}
+
+// An audit entry offered for undo, see database/undoService
+export interface RecentAction {
+  entry: AuditEntry;
+  debtorName: string | null;
+  undone: boolean;
+  // False once the data has changed since, or for actions that cannot be undone
+  canUndo: boolean;
+}
@@ -0,0 +1,39 @@
+export type InterestType = 'NONE' | 'SIMPLE' | 'COMPOUND';
+export type LateFeeType = 'NONE' | 'FLAT' | 'PERCENT';
+export type ChargeKind = 'INTEREST' | 'LATE_FEE';
+
+// A debtor's rule, or the global default when debtor_id is null. Rates are in
+// basis points (250 = 2.5%); a FLAT late fee is in integer minor units.
+export interface ChargeRule {
+  id: number;
+  debtor_id: number | null;
+  interest_type: InterestType;
+  monthly_rate_bp: number;
+  late_fee_type: LateFeeType;
+  late_fee_value: number;
+  grace_days: number;
+  auto_post: number; // 1 to post due charges automatically when the app starts
+  start_date: string; // YYYY-MM-DD, no interest is charged for earlier months
+  updated_at: string;
+}
+
+export interface ChargeRuleInput {
+  interestType: InterestType;
+  monthlyRateBp: number;
+  lateFeeType: LateFeeType;
+  lateFeeValue: number;
+  graceDays: number;
+  autoPost: boolean;
+  startDate: string;
+}
+
+// A charge the rules say is due but that has not been posted yet
+export interface ProposedCharge {
+  debtorId: number;
+  debtorName: string;
+  kind: ChargeKind;
+  period: string; // 'YYYY-MM' for interest, 'debt:<id>' for a late fee
+  date: string;
+  amount: number; // Integer minor units
+  note: string;
+}
@@ -0,0 +1,10 @@
+export type CustomFieldType = 'TEXT' | 'NUMBER' | 'DATE' | 'SELECT';
+
+// A user-defined debtor field. options lists the choices of a SELECT field.
+export interface CustomField {
+  id: number;
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+  position: number;
+}
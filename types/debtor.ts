@@ -1,8 +1,78 @@
-export interface Debtor {
+import { PhoneNumber } from '@/types/phone';
+
+// DEBTOR: someone who owes us. CREDITOR: someone we owe, e.g. a supplier.
+// Both use the same ledger; for a creditor, OUT is money borrowed from them,
+// IN is money paid back, and the balance is what we owe.
+export type CounterpartyKind = 'DEBTOR' | 'CREDITOR';
+
+// Optional contact details kept alongside the name and phones
+export interface DebtorProfile {
+  address: string | null;
+  email: string | null;
+  notes: string | null;
+  nationalId: string | null;
+  customValues: Record<number, string>; // Custom field values keyed by field id
+}
+
+export interface Debtor extends Partial<DebtorProfile> {
   id: number;
   name: string;
+  kind: CounterpartyKind;
   phoneNumbers: string[]; // Changed to array to support multiple phone numbers
-  balance: number;
+  phones?: PhoneNumber[]; // The same numbers with their labels, primary first
+  balance: number; // Integer minor units (see utils/money)
+  overdueAmount: number; // Part of the balance past its due date, minor units
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string | null; // Set while the debtor is in the trash
+  archivedAt?: string | null; // Set while a settled debtor is archived
+}
+
+// Which debtors a list shows. Archived debtors only show under ARCHIVED; the
+// other filters list active ones.
+export type DebtorListFilter = 'ALL' | CounterpartyKind | 'ARCHIVED';
+
+// LAST_ACTIVITY and CREATED put the most recent first; OLDEST_DEBT puts the
+// debtor whose oldest unpaid entry is oldest first and anyone fully paid last
+export type DebtorSort = 'BALANCE_DESC' | 'BALANCE_ASC' | 'NAME' | 'LAST_ACTIVITY' | 'OLDEST_DEBT' | 'CREATED';
+
+// Further narrowing of a list, each left out when unset. Balances are signed
+// minor units.
+export interface DebtorListOptions {
+  minBalance?: number | null;
+  maxBalance?: number | null;
+  balanceState?: 'ZERO' | 'NONZERO' | null;
+  inactiveDays?: number | null; // No transaction in at least this many days
+  overdueOnly?: boolean;
+}
+
+export interface DebtorListQuery {
+  filter: DebtorListFilter;
+  sort: DebtorSort;
+  options?: DebtorListOptions;
+  ids?: number[] | null; // Only these debtors, e.g. the matches of a search
+}
+
+// The filters and sort of the Debtors tab, kept between sessions
+export type DebtorListView = Required<Omit<DebtorListQuery, 'ids'>>;
+
+// Where the next page of a list starts: after the debtor with this sort
+// value and id (see getDebtorsPage)
+export interface DebtorCursor {
+  value: number | string;
+  id: number;
+}
+
+export interface DebtorPage {
+  debtors: Debtor[];
+  total: number; // Debtors matching the query across all pages
+  next: DebtorCursor | null;
+}
+
+// An existing debtor that looks like the one being added, see
+// database/mergeService
+export interface DuplicateMatch {
+  debtor: Debtor;
+  samePhone: boolean;
+  similarName: boolean;
 }
@@ -0,0 +1,29 @@
+export type InstallmentFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
+
+// PAID and PARTIAL follow from how much of the debt has been repaid; an
+// unpaid or partly paid installment is LATE once its due date has passed.
+export type InstallmentStatus = 'PAID' | 'PARTIAL' | 'DUE' | 'LATE';
+
+export interface InstallmentPlanInput {
+  count: number;
+  amount: number; // Per installment, integer minor units; the last one takes the remainder
+  frequency: InstallmentFrequency;
+  startDate: string; // First due date, YYYY-MM-DD
+}
+
+export interface Installment {
+  seq: number;
+  dueDate: string;
+  amount: number; // Integer minor units
+  paid: number; // Integer minor units
+  status: InstallmentStatus;
+}
+
+export interface InstallmentPlan {
+  id: number;
+  transactionId: number;
+  debtAmount: number; // Integer minor units
+  debtDate: string;
+  frequency: InstallmentFrequency;
+  installments: Installment[];
+}
@@ -0,0 +1,9 @@
+export type PhoneLabel = 'MOBILE' | 'HOME' | 'WORK';
+
+// A debtor's phone number. number is in E.164 ("+94771234567") except for
+// numbers stored before normalization that could not be parsed.
+export interface PhoneNumber {
+  number: string;
+  label: PhoneLabel;
+  isPrimary: boolean;
+}
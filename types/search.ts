@@ -0,0 +1,11 @@
+// One search match: the debtor row itself, or one of their transactions whose
+// note matched. snippet is the matching part of the note with the matched
+// words wrapped in SEARCH_MARK_START / SEARCH_MARK_END.
+export interface SearchHit {
+  debtorId: number;
+  transactionId: number | null;
+  snippet: string | null;
+}
+
+export const SEARCH_MARK_START = '\u0002';
+export const SEARCH_MARK_END = '\u0003';
@@ -0,0 +1,66 @@
+import { ChargeKind } from '@/types/chargeRule';
+
+// ADJUSTMENT and OPENING amounts are signed: positive raises the balance,
+// negative lowers it. IN, OUT, WAIVER and WRITE_OFF amounts are always
+// positive. WAIVER (part of a debt forgiven) and WRITE_OFF (a debt given up
+// as unrecoverable) lower the balance like IN but are not cash received.
+export type TransactionType = 'IN' | 'OUT' | 'ADJUSTMENT' | 'OPENING' | 'WAIVER' | 'WRITE_OFF';
+
+export const isSignedTransactionType = (type: TransactionType): boolean =>
+  type === 'ADJUSTMENT' || type === 'OPENING';
+
+// Types whose positive amount lowers the balance
+export const isCreditTransactionType = (type: TransactionType): boolean =>
+  type === 'IN' || type === 'WAIVER' || type === 'WRITE_OFF';
+
+export interface Transaction {
+  id: number;
+  debtor_id: number;
+  type: TransactionType;
+  date: string;
+  time: string;
+  amount: number; // Integer minor units (see utils/money)
+  note: string | null;
+  due_date: string | null; // YYYY-MM-DD, debt (OUT) entries only
+  charge_kind: ChargeKind | null; // Set on interest and late-fee entries posted by the rules engine
+  charge_period: string | null; // What the charge covers, see ProposedCharge.period
+  created_at: string;
+}
+
+// Narrows a debtor's transaction history. Dates are YYYY-MM-DD and inclusive;
+// amounts are minor units compared with the entry's absolute amount.
+export interface TransactionFilter {
+  type?: TransactionType;
+  fromDate?: string | null;
+  toDate?: string | null;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  noteQuery?: string | null; // Part of the note, any case
+}
+
+// A transaction with the debtor's balance right after it, counting every
+// earlier entry in the ledger whether or not a filter shows it
+export interface TimelineEntry extends Transaction {
+  balance_after: number; // Integer minor units
+}
+
+// Where the next page of a history starts (see getTransactionsPage)
+export interface TransactionCursor {
+  opening: boolean;
+  date: string;
+  time: string;
+  id: number;
+}
+
+export interface TransactionPage {
+  transactions: TimelineEntry[];
+  next: TransactionCursor | null;
+}
+
+// What the filtered entries of one month did to the balance, minor units
+export interface MonthTotal {
+  month: string; // YYYY-MM
+  count: number;
+  raised: number;
+  lowered: number;
+}
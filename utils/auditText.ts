@@ -0,0 +1,141 @@
+// Display text for audit log entries, shared by the History and Recent
+// Actions screens
+import { AuditEntry, AuditOperation } from '@/types/audit';
+import { PhoneNumber } from '@/types/phone';
+import { TransactionType } from '@/types/transaction';
+import { InstallmentPlanInput } from '@/types/installment';
+import { formatMoney } from '@/utils/money';
+import { formatPhone, PHONE_LABELS } from '@/utils/phone';
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  IN: 'Payment',
+  OUT: 'Debt',
+  ADJUSTMENT: 'Adjustment',
+  OPENING: 'Opening balance',
+  WAIVER: 'Waiver',
+  WRITE_OFF: 'Write-off',
+};
+
+const DEBTOR_ACTIONS: Record<AuditOperation, string> = {
+  CREATE: 'Contact created',
+  UPDATE: 'Details changed',
+  DELETE: 'Moved to trash',
+  RESTORE: 'Restored from trash',
+  PURGE: 'Deleted permanently',
+  MERGE: 'Merged',
+};
+
+const TRANSACTION_ACTIONS: Record<AuditOperation, string> = {
+  CREATE: 'added',
+  UPDATE: 'edited',
+  DELETE: 'deleted',
+  RESTORE: 'restored',
+  PURGE: 'purged',
+  MERGE: 'merged',
+};
+
+export const AUDIT_ICONS: Record<AuditOperation, string> = {
+  CREATE: '➕',
+  UPDATE: '✏️',
+  DELETE: '🗑️',
+  RESTORE: '♻️',
+  PURGE: '⛔',
+  MERGE: '🔗',
+};
+
+// Entries written before phone labels existed only list the numbers
+const describePhones = (phones: (PhoneNumber | string)[]) =>
+  phones
+    .map((phone) =>
+      typeof phone === 'string'
+        ? formatPhone(phone)
+        : `${formatPhone(phone.number)} (${PHONE_LABELS[phone.label]}${phone.isPrimary ? ', primary' : ''})`
+    )
+    .join(', ') || 'none';
+
+// Fields shown when an entry changes them, in display order. read picks the
+// value out of an entry when it is not simply stored under key.
+const FIELDS: { key: string; label: string; read?: (value: any) => unknown; format?: (value: any) => string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'kind', label: 'Kind', format: (value) => (value === 'CREDITOR' ? 'I owe' : 'Owes me') },
+  { key: 'balance', label: 'Balance', format: (value) => formatMoney(value) },
+  { key: 'phones', label: 'Phones', read: (value) => value?.phones ?? value?.phoneNumbers, format: describePhones },
+  { key: 'address', label: 'Address' },
+  { key: 'email', label: 'Email' },
+  { key: 'nationalId', label: 'ID number' },
+  { key: 'notes', label: 'Notes' },
+  {
+    key: 'customValues',
+    label: 'Custom fields',
+    format: (value) =>
+      Object.entries(value)
+        .map(([name, fieldValue]) => `${name}: ${fieldValue}`)
+        .join(', ') || 'none',
+  },
+  { key: 'amount', label: 'Amount', format: (value) => formatMoney(value) },
+  { key: 'date', label: 'Date' },
+  { key: 'time', label: 'Time' },
+  { key: 'due_date', label: 'Due' },
+  { key: 'note', label: 'Note' },
+  {
+    key: 'installmentPlan',
+    label: 'Installments',
+    format: (plan: InstallmentPlanInput) =>
+      `${plan.count} × ${formatMoney(plan.amount)} ${plan.frequency.toLowerCase()} from ${plan.startDate}`,
+  },
+];
+
+const formatField = (field: (typeof FIELDS)[number], value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return field.format ? field.format(value) : String(value);
+};
+
+// audit_log.created_at is stored by SQLite as UTC "YYYY-MM-DD HH:MM:SS"
+export const formatAuditTimestamp = (value: string) => {
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}`;
+};
+
+// One-line summary such as "Payment added" or "Moved to trash"; entries
+// written by an undo are prefixed with "Undo:"
+export const describeAuditEntry = (entry: AuditEntry): string => {
+  const prefix = entry.revertsId ? 'Undo: ' : '';
+  if (entry.entity === 'DEBTOR') {
+    const wasArchived = entry.oldValue?.archivedAt ?? null;
+    const isArchived = entry.newValue?.archivedAt ?? null;
+    if (entry.operation === 'UPDATE' && !wasArchived !== !isArchived) {
+      return `${prefix}${isArchived ? 'Archived' : 'Unarchived'}`;
+    }
+    if (entry.operation === 'MERGE') {
+      const { mergedFrom, mergedInto } = entry.newValue ?? {};
+      return mergedFrom ? `Merged in ${mergedFrom}` : `Merged into ${mergedInto}`;
+    }
+    return `${prefix}${DEBTOR_ACTIONS[entry.operation]}`;
+  }
+  const row = (entry.newValue ?? entry.oldValue) as { type?: TransactionType; charge_kind?: string | null } | null;
+  let label = row?.type ? TRANSACTION_LABELS[row.type] : 'Transaction';
+  if (row?.charge_kind === 'INTEREST') label = 'Interest charge';
+  if (row?.charge_kind === 'LATE_FEE') label = 'Late fee';
+  return `${prefix}${label} ${TRANSACTION_ACTIONS[entry.operation]}`;
+};
+
+// "Field: old → new" for an update, or the recorded values otherwise
+export const auditDetailLines = (entry: AuditEntry): string[] => {
+  const { oldValue, newValue } = entry;
+  const lines: string[] = [];
+  for (const field of FIELDS) {
+    const before = field.read ? field.read(oldValue) : oldValue?.[field.key];
+    const after = field.read ? field.read(newValue) : newValue?.[field.key];
+    if (oldValue && newValue) {
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        lines.push(`${field.label}: ${formatField(field, before)} → ${formatField(field, after)}`);
+      }
+    } else {
+      const value = newValue ? after : before;
+      if (value !== undefined && value !== null && value !== '') {
+        lines.push(`${field.label}: ${formatField(field, value)}`);
+      }
+    }
+  }
+  return lines;
+};
@@ -34,6 +34,8 @@ const DOC_DIR = FileSystem.documentDirectory ?? FileSystem.cacheDirectory ?? '';
 const SQLITE_DIR = `${DOC_DIR}SQLite/`;
 const BACKUP_DIR = `${DOC_DIR}backups/`;
 const META_FILE = `${DOC_DIR}backup_meta.json`;
+// Marker left by a restore so the next app start runs a balance check
+const RECONCILE_FLAG_FILE = `${DOC_DIR}reconcile_pending.json`;
 // Prefer the canonical .db filename when present
 const DB_CANDIDATES = ['debitmanager.db', 'debitmanager'];
 
@@ -301,6 +303,30 @@ export async function getLastBackupTimestamp(): Promise<Date | null> {
   }
 }
 
+export async function markReconcileAfterRestore(): Promise<void> {
+  try {
+    const payload = JSON.stringify({ restoredAtISO: new Date().toISOString() });
+    await FileSystem.writeAsStringAsync(RECONCILE_FLAG_FILE, payload, {
+      encoding: FileSystem.EncodingType.UTF8,
+    });
+  } catch (e) {
+    console.warn('Failed to write reconcile marker:', e);
+  }
+}
+
+// Returns true (and clears the marker) if a restore happened since the last check
+export async function consumeReconcileAfterRestore(): Promise<boolean> {
+  try {
+    const info = await FileSystem.getInfoAsync(RECONCILE_FLAG_FILE);
+    if (!info.exists) return false;
+    await FileSystem.deleteAsync(RECONCILE_FLAG_FILE, { idempotent: true });
+    return true;
+  } catch (e) {
+    console.warn('Failed to read reconcile marker:', e);
+    return false;
+  }
+}
+
 export async function backupNow(): Promise<{ uri: string; uploaded: boolean; shared: boolean; googleDrive: boolean }> {
   const { uri } = await backupDatabase();
   // Record last backup time immediately after creating the local copy
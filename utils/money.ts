@@ -0,0 +1,56 @@
+// Money is stored and passed around as integer minor units (cents for two
+// decimal places) so sums and balance updates stay exact. Convert to text only
+// at the UI edge with the helpers below.
+export type MinorUnits = number;
+
+// expo-constants is only present inside the app; scripts that load this module
+// (e.g. running the migrations headlessly) fall back to the defaults
+const loadMoneyConfig = (): any => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const Constants: any = require('expo-constants');
+    return Constants?.default?.expoConfig?.extra?.money ?? Constants?.expoConfig?.extra?.money ?? {};
+  } catch {
+    return {};
+  }
+};
+
+const moneyConfig: any = loadMoneyConfig();
+
+// Number of decimal places kept in minor units, from `expo.extra.money.decimals`.
+// Stored values are scaled by this when the database is migrated, so it must not
+// change once a database exists.
+export const MONEY_DECIMALS: number = Number.isInteger(moneyConfig.decimals) ? moneyConfig.decimals : 2;
+export const CURRENCY_PREFIX: string = typeof moneyConfig.currencyPrefix === 'string' ? moneyConfig.currencyPrefix : 'Rs.';
+
+export const MINOR_UNITS_PER_MAJOR = 10 ** MONEY_DECIMALS;
+
+// Parse user input such as "1250", "12.5" or "-3.75" into minor units without
+// going through floating point. Returns null for empty or malformed input and
+// for more decimal places than MONEY_DECIMALS.
+export function parseMoney(input: string): MinorUnits | null {
+  const text = input.trim().replaceAll(',', '');
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match) return null;
+  const [, sign, whole = '', fraction = ''] = match;
+  if (whole === '' && fraction === '') return null;
+  if (fraction.length > MONEY_DECIMALS) return null;
+  const minor = Number(whole || '0') * MINOR_UNITS_PER_MAJOR + Number(fraction.padEnd(MONEY_DECIMALS, '0') || '0');
+  return sign === '-' ? -minor : minor;
+}
+
+// Format minor units as a plain decimal string, e.g. 123450 -> "1234.50"
+export function formatAmount(minor: MinorUnits): string {
+  const sign = minor < 0 ? '-' : '';
+  const abs = Math.abs(Math.trunc(minor));
+  const whole = Math.floor(abs / MINOR_UNITS_PER_MAJOR);
+  if (MONEY_DECIMALS === 0) return `${sign}${whole}`;
+  const fraction = String(abs % MINOR_UNITS_PER_MAJOR).padStart(MONEY_DECIMALS, '0');
+  return `${sign}${whole}.${fraction}`;
+}
+
+// Format minor units with the currency prefix, e.g. 123450 -> "Rs.1234.50"
+// and -500 -> "-Rs.5.00"
+export function formatMoney(minor: MinorUnits): string {
+  return `${minor < 0 ? '-' : ''}${CURRENCY_PREFIX}${formatAmount(Math.abs(minor))}`;
+}
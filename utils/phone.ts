@@ -0,0 +1,128 @@
+// Phone numbers are stored in E.164 ("+94771234567"). Input without a country
+// code is read as a number of the default country chosen in settings (see
+// database/phoneService).
+import { PhoneLabel } from '@/types/phone';
+
+export interface Country {
+  code: string; // ISO 3166 alpha-2
+  name: string;
+  dialCode: string;
+  nationalLengths: number[]; // Digits after the country code
+  trunkPrefix: string; // Dialled before national numbers, e.g. the 0 in 077...
+}
+
+export const COUNTRIES: Country[] = [
+  { code: 'LK', name: 'Sri Lanka', dialCode: '94', nationalLengths: [9], trunkPrefix: '0' },
+  { code: 'IN', name: 'India', dialCode: '91', nationalLengths: [10], trunkPrefix: '0' },
+  { code: 'MV', name: 'Maldives', dialCode: '960', nationalLengths: [7], trunkPrefix: '' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971', nationalLengths: [8, 9], trunkPrefix: '0' },
+  { code: 'SA', name: 'Saudi Arabia', dialCode: '966', nationalLengths: [9], trunkPrefix: '0' },
+  { code: 'QA', name: 'Qatar', dialCode: '974', nationalLengths: [8], trunkPrefix: '' },
+  { code: 'SG', name: 'Singapore', dialCode: '65', nationalLengths: [8], trunkPrefix: '' },
+  { code: 'AU', name: 'Australia', dialCode: '61', nationalLengths: [9], trunkPrefix: '0' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', nationalLengths: [9, 10], trunkPrefix: '0' },
+  { code: 'US', name: 'United States / Canada', dialCode: '1', nationalLengths: [10], trunkPrefix: '1' },
+];
+
+export const DEFAULT_COUNTRY_CODE = 'LK';
+
+export const PHONE_LABELS: Record<PhoneLabel, string> = {
+  MOBILE: 'Mobile',
+  HOME: 'Home',
+  WORK: 'Work',
+};
+
+// The label after `label`, for buttons that cycle through them
+export const nextPhoneLabel = (label: PhoneLabel): PhoneLabel => {
+  const labels = Object.keys(PHONE_LABELS) as PhoneLabel[];
+  return labels[(labels.indexOf(label) + 1) % labels.length];
+};
+
+export const findCountry = (code: string): Country =>
+  COUNTRIES.find((country) => country.code === code) ?? COUNTRIES[0];
+
+// The listed country whose dialling code starts an E.164 number, if any
+const countryOfNumber = (digits: string): Country | undefined =>
+  COUNTRIES.filter((country) => digits.startsWith(country.dialCode)).sort(
+    (a, b) => b.dialCode.length - a.dialCode.length
+  )[0];
+
+// E.164 allows up to 15 digits; shorter than 8 is never a full number
+const isPlausibleE164 = (digits: string) => digits.length >= 8 && digits.length <= 15;
+
+// Parse a number as typed into E.164, or null when it is not a valid number.
+// Numbers starting with + or 00 carry their own country code; anything else is
+// read as a number of `country`, with or without its trunk prefix or country
+// code.
+export const normalizePhone = (input: string, country: Country): string | null => {
+  const trimmed = input.trim();
+  const digits = trimmed.replaceAll(/\D/g, '');
+  if (!digits) return null;
+
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    const international = trimmed.startsWith('+') ? digits : digits.slice(2);
+    const known = countryOfNumber(international);
+    if (known) {
+      const national = international.slice(known.dialCode.length);
+      return known.nationalLengths.includes(national.length) ? `+${international}` : null;
+    }
+    return isPlausibleE164(international) ? `+${international}` : null;
+  }
+
+  const fits = (national: string) => country.nationalLengths.includes(national.length);
+  if (fits(digits)) return `+${country.dialCode}${digits}`;
+  if (country.trunkPrefix && digits.startsWith(country.trunkPrefix)) {
+    const national = digits.slice(country.trunkPrefix.length);
+    if (fits(national)) return `+${country.dialCode}${national}`;
+  }
+  if (digits.startsWith(country.dialCode)) {
+    const national = digits.slice(country.dialCode.length);
+    if (fits(national)) return `+${country.dialCode}${national}`;
+  }
+  return null;
+};
+
+// What to tell the user when normalizePhone rejects their input
+export const phoneFormatHint = (country: Country): string => {
+  const lengths = country.nationalLengths.join(' or ');
+  const trunk = country.trunkPrefix ? ` (after the leading ${country.trunkPrefix})` : '';
+  return `Enter a ${country.name} number of ${lengths} digits${trunk}, or start with + and the country code.`;
+};
+
+// "+94 771234567" for display; numbers that are not E.164 are shown as stored
+export const formatPhone = (number: string): string => {
+  if (!number.startsWith('+')) return number;
+  const digits = number.slice(1);
+  const country = countryOfNumber(digits);
+  return country ? `+${country.dialCode} ${digits.slice(country.dialCode.length)}` : number;
+};
+
+// Digits for a wa.me link. Numbers stored before normalization are read as
+// numbers of the default country.
+export const whatsAppNumber = (number: string, country: Country): string =>
+  (normalizePhone(number, country) ?? number).replaceAll(/\D/g, '');
+
+// The ways someone might type a stored number into search: with the country
+// code, and in national form with and without the trunk prefix
+export const phoneSearchForms = (number: string): string[] => {
+  const digits = number.replaceAll(/\D/g, '');
+  const country = number.startsWith('+') ? countryOfNumber(digits) : undefined;
+  if (!country) return [digits];
+  const national = digits.slice(country.dialCode.length);
+  return [digits, national, `${country.trunkPrefix}${national}`];
+};
+
+// The digits of a search query typed as a phone number ("+94 77-123"), or
+// null when the query has anything else in it
+export const phoneQueryDigits = (query: string): string | null =>
+  /^[\d\s()+-]+$/.test(query) ? query.replaceAll(/\D/g, '') || null : null;
+
+// Two entries count as the same number when their last nine digits match, so
+// a number saved before normalization still matches its E.164 form
+const MATCH_DIGITS = 9;
+
+// Comparison key for a phone number, or null when it has too few digits
+export const phoneMatchKey = (phone: string): string | null => {
+  const digits = phone.replaceAll(/\D/g, '');
+  return digits.length >= MATCH_DIGITS ? digits.slice(-MATCH_DIGITS) : null;
+};